@@ -4,17 +4,107 @@ import * as fs from "fs";
 import { askLLM } from "./aiService";
 import { extractCurrentFunctionMetadata } from "./codeAnalysis/metadataExtractor";
 import { ASTParser } from "./codeAnalysis/astParser";
+import { Conversation } from "./conversation";
+import { formatCommandResult, runCommandWithApproval } from "./commandRunner";
+import { FileEditSuggestion, applyEditPlan, applySuggestion } from "./editing/editApplier";
+import { CodebaseIndexer } from "./codeAnalysis/codebaseIndexer";
+import { ContextRetriever } from "./context/contextRetriever";
+import { SearchResult, SemanticSearch } from "./search/semanticSearch";
+import { getLanguage, getLanguageForFile } from "./codeAnalysis/languageRegistry";
+import { ContextSnippet, buildContext } from "./context/contextBuilder";
+import { PromptTemplates, fillTemplate, parseSlashCommand } from "./prompts/promptTemplates";
+import { AgentTool, createAgentTools } from "./agent/agentTools";
+import { runAgent } from "./agent/agentLoop";
+import { isExcludedFromAI } from "./privacy/excludedFiles";
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private readonly _extensionUri: vscode.Uri;
-  private readonly _isTrusted: boolean;
+  private _isTrusted: boolean;
   private astParser: ASTParser;
-
-  constructor(extensionUri: vscode.Uri, isTrusted: boolean) {
+  private conversation: Conversation;
+  private contextRetriever: ContextRetriever;
+  private indexer: CodebaseIndexer;
+  private search: SemanticSearch;
+  private templates: PromptTemplates;
+  private agentTools: AgentTool[];
+  private _abortController?: AbortController;
+  // Whether the latest chat answer went into the history (and Regenerate replaces it)
+  private _lastAnswerRecorded = false;
+  private _webviewReady = false;
+  // Callers waiting for the webview script to load (see _revealChat)
+  private _readyWaiters: Array<() => void> = [];
+
+  constructor(
+    extensionUri: vscode.Uri,
+    isTrusted: boolean,
+    indexer: CodebaseIndexer,
+    search: SemanticSearch,
+    templates: PromptTemplates
+  ) {
     this._extensionUri = extensionUri;
     this._isTrusted = isTrusted;
     this.astParser = new ASTParser();
+    this.conversation = new Conversation();
+    this.indexer = indexer;
+    this.contextRetriever = new ContextRetriever(indexer);
+    this.search = search;
+    this.templates = templates;
+    this.agentTools = createAgentTools({
+      parser: this.astParser,
+      indexer,
+      search,
+      isTrusted: () => this._isTrusted,
+    });
+    templates.onDidChange(() => this._sendSlashCommands());
+  }
+
+  /** Called when the user grants workspace trust after activation. */
+  public setTrusted(isTrusted: boolean): void {
+    this._isTrusted = isTrusted;
+  }
+
+  /**
+   * Show a report from a command run outside the chat (e.g. generated tests)
+   * in the chat panel, opening it if needed. The report is kept in the
+   * history so follow-up questions can refer to it.
+   */
+  public async showReport(text: string, failed: boolean): Promise<void> {
+    this.conversation.addNote(text);
+    if (await this._revealChat()) {
+      this._sendMessageToWebview({ type: "commandResult", text, failed });
+    }
+  }
+
+  /**
+   * Send a question to the chat as if the user had typed it, e.g. from a
+   * CodeLens action. The code context comes from the active editor as usual.
+   */
+  public async askInChat(prompt: string): Promise<void> {
+    if (!(await this._revealChat())) {
+      return;
+    }
+    this._abortController?.abort();
+    this._sendMessageToWebview({ type: "userMessage", text: prompt });
+    await this._handleChatMessage(prompt);
+  }
+
+  /** Open the chat panel and wait until its script can receive messages. */
+  private async _revealChat(): Promise<boolean> {
+    if (this._view && this._webviewReady) {
+      this._view.show(true);
+      return true;
+    }
+
+    const ready = new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => resolve(false), 10000);
+      this._readyWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+    await vscode.commands.executeCommand("aiDevAssistant.chat.focus");
+    return ready;
   }
 
   public resolveWebviewView(
@@ -23,6 +113,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     _token: vscode.CancellationToken
   ): void {
     this._view = webviewView;
+    this._webviewReady = false;
 
     webviewView.webview.options = {
       enableScripts: true,
@@ -34,18 +125,47 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     webviewView.webview.onDidReceiveMessage(async (message) => {
       await this._handleWebviewMessage(message);
     });
+
+    webviewView.onDidDispose(() => {
+      this._view = undefined;
+      this._webviewReady = false;
+    });
   }
 
   private async _handleWebviewMessage(message: any): Promise<void> {
     switch (message.type) {
+      case "ready":
+        this._webviewReady = true;
+        this._readyWaiters.splice(0).forEach((notify) => notify());
+        await this._sendSlashCommands();
+        break;
+
       case "sendMessage":
-        await this._handleChatMessage(message.text);
+        if (message.agent) {
+          await this._handleAgentMessage(message.text);
+        } else {
+          await this._handleChatMessage(message.text, message.regenerate === true);
+        }
+        break;
+
+      case "stopGeneration":
+        this._abortController?.abort();
+        break;
+
+      case "clearChat":
+        this._abortController?.abort();
+        this.conversation.clear();
+        this._lastAnswerRecorded = false;
         break;
 
       case "applyEdit":
         await this._handleApplyEdit(message.fileName, message.content);
         break;
 
+      case "applyEditPlan":
+        await this._handleApplyEditPlan(message.edits);
+        break;
+
       case "runCommand":
         await this._handleRunCommand(message.command);
         break;
@@ -63,35 +183,114 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private async _handleChatMessage(userMessage: string): Promise<void> {
+  /**
+   * Answer a chat message. `regenerate` asks the same question again: the
+   * previous answer leaves the history and the response cache is skipped.
+   */
+  private async _handleChatMessage(userMessage: string, regenerate = false): Promise<void> {
+    const abortController = new AbortController();
+    this._abortController = abortController;
+    let streamStarted = false;
+    if (regenerate && this._lastAnswerRecorded) {
+      this.conversation.removeLastExchange();
+    }
+    this._lastAnswerRecorded = false;
+
     try {
       this._sendMessageToWebview({
         type: "assistantThinking",
         thinking: true,
       });
+      this._sendMessageToWebview({ type: "generationState", active: true });
 
       // 🔥 Get FOCUSED code context using Tree-sitter
       const codeContext = await this._getEnhancedCodeContext();
 
-      let fullPrompt = userMessage;
-      if (codeContext) {
-        fullPrompt = this._buildContextualPrompt(userMessage, codeContext);
+      // "/name ..." runs a prompt template, filled in from the editor; a name
+      // no template has, like "/tmp is full", is an ordinary question
+      let request = userMessage;
+      const slashCommand = parseSlashCommand(userMessage);
+      const template = slashCommand && (await this.templates.find(slashCommand.name));
+      if (slashCommand && template) {
+        request = fillTemplate(template, {
+          selection: codeContext?.selection,
+          function: codeContext?.currentFunction?.code,
+          functionName: codeContext?.currentFunction?.name,
+          fileName: codeContext?.fileName,
+          language: codeContext && (getLanguage(codeContext.language)?.displayName ?? codeContext.language),
+          input: slashCommand.input,
+        });
       }
 
-      console.log("fullPrompt", fullPrompt);
-      
+      // Functions anywhere in the workspace that match the question
+      const relevantCode = await this._findRelevantCode(
+        request,
+        codeContext,
+        abortController.signal
+      );
 
-      const response = await askLLM(fullPrompt);
+      // Fit the candidate snippets into the token budget and show the user
+      // what the model gets to see
+      const builtContext = buildContext(this._buildContextSnippets(codeContext, relevantCode));
+      const fullPrompt = builtContext.text
+        ? `${builtContext.text}User Request: ${request}`
+        : request;
+      if (builtContext.included.length > 0 || builtContext.omitted.length > 0) {
+        this._sendMessageToWebview({
+          type: "contextInfo",
+          included: builtContext.included,
+          omitted: builtContext.omitted,
+          tokens: builtContext.tokens,
+          budget: builtContext.budget,
+        });
+      }
+
+      // Send the stored transcript so follow-up questions have context, and
+      // stream the answer into the panel as it arrives
+      const response = await askLLM(this.conversation.buildRequest(fullPrompt), {
+        signal: abortController.signal,
+        command: slashCommand && template ? `/${slashCommand.name}` : "chat",
+        bypassCache: regenerate,
+        onChunk: (text) => {
+          if (!streamStarted) {
+            streamStarted = true;
+            this._sendMessageToWebview({
+              type: "assistantThinking",
+              thinking: false,
+            });
+            this._sendMessageToWebview({ type: "assistantStreamStart" });
+          }
+          this._sendMessageToWebview({ type: "assistantStreamChunk", text });
+        },
+      });
+      const stopped = abortController.signal.aborted;
+
+      // askLLM reports failures as "❌ ..." text; keep those out of the history
+      const answered = !!response && !response.startsWith("❌");
+      if (answered) {
+        this.conversation.addExchange(request, response);
+        this._lastAnswerRecorded = true;
+      }
 
       this._sendMessageToWebview({
         type: "assistantThinking",
         thinking: false,
       });
 
-      this._sendMessageToWebview({
-        type: "assistantMessage",
-        text: response,
-      });
+      if (streamStarted) {
+        this._sendMessageToWebview({
+          type: "assistantStreamEnd",
+          text: response,
+          stopped,
+          regenerable: answered,
+        });
+      } else if (!stopped || response) {
+        this._sendMessageToWebview({
+          type: "assistantMessage",
+          text: response,
+          regenerable: answered,
+        });
+      }
     } catch (error: any) {
       this._sendMessageToWebview({
         type: "assistantThinking",
@@ -104,6 +303,81 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       });
 
       vscode.window.showErrorMessage(`AI Dev Assistant: ${error.message}`);
+    } finally {
+      if (this._abortController === abortController) {
+        this._abortController = undefined;
+      }
+      this._sendMessageToWebview({ type: "generationState", active: false });
+    }
+  }
+
+  /**
+   * Agent mode: the model works on the task with tools (reading files,
+   * searching, editing, running commands) and every call shows up as a step
+   * in the panel. The Stop button cancels the loop.
+   */
+  private async _handleAgentMessage(task: string): Promise<void> {
+    const abortController = new AbortController();
+    this._abortController = abortController;
+
+    try {
+      this._sendMessageToWebview({ type: "assistantThinking", thinking: true });
+      this._sendMessageToWebview({ type: "generationState", active: true });
+
+      // Start from what the user is looking at; the agent reads the rest itself
+      const codeContext = await this._getEnhancedCodeContext();
+      const builtContext = buildContext(this._buildContextSnippets(codeContext, []));
+      const activeUri = vscode.window.activeTextEditor?.document.uri;
+      const activeFile =
+        activeUri?.scheme === "file" && !isExcludedFromAI(activeUri) ? `Active file: ${vscode.workspace.asRelativePath(activeUri)}\n` : "";
+      if (builtContext.included.length > 0 || builtContext.omitted.length > 0) {
+        this._sendMessageToWebview({
+          type: "contextInfo",
+          included: builtContext.included,
+          omitted: builtContext.omitted,
+          tokens: builtContext.tokens,
+          budget: builtContext.budget,
+        });
+      }
+
+      const maxSteps =
+        vscode.workspace.getConfiguration("aiDevAssistant").get<number>("agent.maxSteps") ?? 10;
+      const result = await runAgent(`${activeFile}${builtContext.text}Task: ${task}`, {
+        tools: this.agentTools,
+        history: this.conversation.getMessages(),
+        maxSteps,
+        signal: abortController.signal,
+        onStep: (step) => {
+          this._sendMessageToWebview({ type: "assistantThinking", thinking: step.status !== "running" });
+          this._sendMessageToWebview({ type: "agentStep", step });
+        },
+      });
+
+      this._sendMessageToWebview({ type: "assistantThinking", thinking: false });
+      if (result.stopped) {
+        this._sendMessageToWebview({
+          type: "assistantMessage",
+          text: `⏹ Agent stopped after ${result.steps} step(s).`,
+        });
+        return;
+      }
+
+      if (result.answer && !result.answer.startsWith("❌")) {
+        this.conversation.addExchange(task, result.answer);
+      }
+      this._sendMessageToWebview({ type: "assistantMessage", text: result.answer });
+    } catch (error: any) {
+      this._sendMessageToWebview({ type: "assistantThinking", thinking: false });
+      this._sendMessageToWebview({
+        type: "assistantMessage",
+        text: `❌ Error: ${error.message || "The agent failed"}`,
+      });
+      vscode.window.showErrorMessage(`AI Dev Assistant: ${error.message}`);
+    } finally {
+      if (this._abortController === abortController) {
+        this._abortController = undefined;
+      }
+      this._sendMessageToWebview({ type: "generationState", active: false });
     }
   }
 
@@ -112,7 +386,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    */
   private async _getEnhancedCodeContext(): Promise<any> {
     const editor = vscode.window.activeTextEditor;
-    if (!editor) {
+    if (!editor || isExcludedFromAI(editor.document.uri)) {
       return null;
     }
 
@@ -121,6 +395,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     const language = document.languageId;
     const fileName = path.basename(document.fileName);
 
+    const selection = editor.selection.isEmpty ? "" : document.getText(editor.selection);
+
     // Parse file with Tree-sitter
     const analysis = this.astParser.parseFile(code, language);
     if (!analysis) {
@@ -129,10 +405,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         fileName,
         language,
         fullCode: code,
+        cursorLine: editor.selection.active.line,
+        selection,
         type: "basic",
       };
     }
-    console.log("analysis",analysis);
     
     // Get current cursor position
     const position = editor.selection.active;
@@ -142,6 +419,38 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     const currentFunction = analysis.functions.find(
       (f) => currentLine >= f.lineStart && currentLine <= f.lineEnd
     );
+    const currentCode = currentFunction
+      ? this._extractFunctionCode(code, currentFunction.lineStart, currentFunction.lineEnd)
+      : "";
+
+    // Definitions from other files that the current function depends on
+    const dependencies = currentFunction
+      ? await this.contextRetriever.findDependencies(
+          currentCode,
+          analysis.imports,
+          document.uri.fsPath,
+          currentFunction.calls
+        )
+      : [];
+
+    // Where the current function is used, from the workspace call graph
+    const callers = currentFunction
+      ? this.indexer
+          .getCallers(currentFunction.name)
+          .filter((c) => c.func.name !== currentFunction.name && !isExcludedFromAI(c.filePath))
+          .slice(0, 5)
+          .map((c) => ({
+            name: c.func.name,
+            signature: c.func.signature,
+            relativePath: vscode.workspace.asRelativePath(c.filePath),
+          }))
+      : [];
+
+    // Functions in this file called by the current one come first
+    const calledHere = new Set(currentFunction?.calls ?? []);
+    const relatedFunctions = analysis.functions
+      .filter((f) => f.name !== currentFunction?.name)
+      .sort((a, b) => Number(calledHere.has(b.name)) - Number(calledHere.has(a.name)));
 
     return {
       fileName,
@@ -159,22 +468,26 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             params: currentFunction.params,
             returnType: currentFunction.returnType,
             complexity: currentFunction.complexity,
+            cognitiveComplexity: currentFunction.cognitiveComplexity,
             lineStart: currentFunction.lineStart,
             lineEnd: currentFunction.lineEnd,
-            code: this._extractFunctionCode(code, currentFunction.lineStart, currentFunction.lineEnd),
+            code: currentCode,
           }
         : null,
-      // Related functions (for test generation)
-      relatedFunctions: analysis.functions
-        .filter((f) => f.name !== currentFunction?.name)
-        .slice(0, 3) // Top 3 related functions
-        .map((f) => ({
-          name: f.name,
-          signature: f.signature,
-          complexity: f.complexity,
-        })),
+      // Related functions, most relevant first; the context budget decides how many fit
+      relatedFunctions: relatedFunctions.map((f) => ({
+        name: f.name,
+        signature: f.signature,
+        complexity: f.complexity,
+      })),
+      // Whole file, used around the cursor when it is not inside a function
+      fullCode: currentFunction ? undefined : code,
+      cursorLine: currentLine - 1,
+      selection,
       // Classes in file
       classes: analysis.classes,
+      dependencies,
+      callers,
     };
   }
 
@@ -187,50 +500,168 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * 🔥 NEW: Build a smart, contextual prompt
+   * 🔥 NEW: Candidate context for the prompt, ranked by priority. The
+   * context builder decides what fits into the token budget.
    */
-  private _buildContextualPrompt(userMessage: string, context: any): string {
-    if (context.type === "basic") {
-      // Fallback to old behavior
-      return `User's current code context:\n\nFile: ${context.fileName}\n\`\`\`${context.language}\n${context.fullCode}\n\`\`\`\n\nUser message: ${userMessage}`;
+  private _buildContextSnippets(context: any, relevantCode: SearchResult[]): ContextSnippet[] {
+    const snippets: ContextSnippet[] = [];
+
+    if (context) {
+      snippets.push({
+        label: `File: ${context.fileName}`,
+        content:
+          context.type === "basic"
+            ? `File: ${context.fileName} (${context.language})`
+            : `File: ${context.fileName} (${context.language})\nTotal Functions: ${context.totalFunctions}, Total Classes: ${context.totalClasses}`,
+        priority: 1000,
+      });
     }
 
-    // Enhanced context with Tree-sitter metadata
-    let prompt = `File: ${context.fileName} (${context.language})\n`;
-    prompt += `Total Functions: ${context.totalFunctions}, Total Classes: ${context.totalClasses}\n\n`;
+    if (context?.selection) {
+      snippets.push({
+        label: "Selected code",
+        section: "Selected Code",
+        content: context.selection,
+        fence: context.language,
+        priority: 100,
+        truncate: "code",
+      });
+    }
 
-    // Add imports
-    if (context.imports.length > 0) {
-      prompt += `Imports:\n${context.imports.slice(0, 5).join("\n")}\n\n`;
+    if (context?.imports?.length > 0) {
+      snippets.push({
+        label: `Imports (${context.imports.length})`,
+        section: "Imports",
+        content: context.imports.join("\n"),
+        priority: 40,
+        truncate: "list",
+      });
     }
 
-    // Add classes
-    if (context.classes.length > 0) {
-      prompt += `Classes: ${context.classes.join(", ")}\n\n`;
+    if (context?.classes?.length > 0) {
+      snippets.push({
+        label: "Classes in file",
+        content: `Classes: ${context.classes.join(", ")}`,
+        priority: 35,
+      });
     }
 
     // 🔥 Key: Add current function context (if available)
-    if (context.currentFunction) {
-      prompt += `Current Function (cursor location):\n`;
-      prompt += `- Name: ${context.currentFunction.name}\n`;
-      prompt += `- Signature: ${context.currentFunction.signature}\n`;
-      prompt += `- Complexity: ${context.currentFunction.complexity}\n`;
-      prompt += `- Lines: ${context.currentFunction.lineStart}-${context.currentFunction.lineEnd}\n\n`;
-      prompt += `Function Code:\n\`\`\`${context.language}\n${context.currentFunction.code}\n\`\`\`\n\n`;
+    if (context?.currentFunction) {
+      const f = context.currentFunction;
+      snippets.push({
+        label: `Current function: ${f.name}`,
+        section: "Current Function (cursor location)",
+        content: `- Name: ${f.name}\n- Signature: ${f.signature}\n- Complexity: cyclomatic ${f.complexity}, cognitive ${f.cognitiveComplexity}\n- Lines: ${f.lineStart}-${f.lineEnd}\n\nFunction Code:`,
+        priority: 90,
+      });
+      snippets.push({
+        label: `Code of ${f.name}`,
+        section: "Current Function (cursor location)",
+        content: f.code,
+        fence: context.language,
+        priority: 90,
+        truncate: "code",
+        focusLine: context.cursorLine - (f.lineStart - 1),
+      });
+    }
+
+    // Not inside a function (or no parser): the file around the cursor
+    if (context?.fullCode) {
+      snippets.push({
+        label: `${context.fileName} around the cursor`,
+        section: "File Content",
+        content: context.fullCode,
+        fence: context.language,
+        priority: context.type === "basic" ? 80 : 20,
+        truncate: "code",
+        focusLine: context.cursorLine,
+      });
     }
 
+    // Helpers and types from other files the current function uses
+    (context?.dependencies ?? []).forEach((d: any) => {
+      snippets.push({
+        label: `${d.kind} ${d.name} (${d.relativePath})`,
+        section: "Definitions Used by the Current Function (from other files)",
+        title: d.code ? `${d.relativePath}:` : undefined,
+        content: d.code ?? `- ${d.signature} (${d.relativePath})`,
+        fence: d.code ? context.language : undefined,
+        priority: 60 + d.score,
+        truncate: d.code ? "code" : undefined,
+      });
+    });
+
+    (context?.callers ?? []).forEach((c: any, i: number) => {
+      snippets.push({
+        label: `Caller ${c.name} (${c.relativePath})`,
+        section: "Called By",
+        content: `- ${c.signature} (${c.relativePath})`,
+        priority: 50 - i,
+      });
+    });
+
+    // Functions anywhere in the workspace that match the question
+    relevantCode.forEach(({ chunk }, i) => {
+      const relativePath = vscode.workspace.asRelativePath(chunk.filePath);
+      snippets.push({
+        label: `Search match ${chunk.func.name} (${relativePath})`,
+        section: "Relevant Code from the Workspace",
+        title: `${relativePath}:${chunk.func.lineStart}`,
+        content: chunk.text,
+        fence: getLanguageForFile(chunk.filePath)?.id ?? "",
+        priority: 55 - i,
+        truncate: "code",
+      });
+    });
+
     // Add related functions (for context)
-    if (context.relatedFunctions.length > 0) {
-      prompt += `Other Functions in File:\n`;
-      context.relatedFunctions.forEach((f: any) => {
-        prompt += `- ${f.signature} (complexity: ${f.complexity})\n`;
+    if (context?.relatedFunctions?.length > 0) {
+      snippets.push({
+        label: `Other functions in file (${context.relatedFunctions.length})`,
+        section: "Other Functions in File",
+        content: context.relatedFunctions
+          .map((f: any) => `- ${f.signature} (complexity: ${f.complexity})`)
+          .join("\n"),
+        priority: 30,
+        truncate: "list",
       });
-      prompt += `\n`;
     }
 
-    prompt += `User Request: ${userMessage}`;
+    return snippets;
+  }
 
-    return prompt;
+  /**
+   * Search the workspace for functions matching the message, leaving out the
+   * function under the cursor (it is already in the prompt).
+   */
+  private async _findRelevantCode(
+    userMessage: string,
+    context: any,
+    signal: AbortSignal
+  ): Promise<SearchResult[]> {
+    const limit = vscode.workspace
+      .getConfiguration("aiDevAssistant")
+      .get<number>("search.chatResults", 3);
+    if (limit <= 0) {
+      return [];
+    }
+
+    try {
+      const currentFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+      const results = await this.search.search(userMessage, limit + 1, signal);
+      return results
+        .filter(
+          (r) =>
+            (r.chunk.filePath !== currentFile ||
+              r.chunk.func.lineStart !== context?.currentFunction?.lineStart) &&
+            !isExcludedFromAI(r.chunk.filePath)
+        )
+        .slice(0, limit);
+    } catch (error) {
+      console.error("Workspace search failed:", error);
+      return [];
+    }
   }
 
   /**
@@ -255,36 +686,24 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async _handleApplyEdit(
-    fileName: string,
+    fileName: string | null,
     content: string
   ): Promise<void> {
     try {
-      const editor = vscode.window.activeTextEditor;
-      if (!editor) {
-        vscode.window.showErrorMessage("No active editor to apply edit");
-        return;
-      }
-
-      const edit = new vscode.WorkspaceEdit();
-      const fullRange = new vscode.Range(
-        editor.document.positionAt(0),
-        editor.document.positionAt(editor.document.getText().length)
-      );
-
-      edit.replace(editor.document.uri, fullRange, content);
-
-      const success = await vscode.workspace.applyEdit(edit);
-
-      if (success) {
-        vscode.window.showInformationMessage("AI edit applied successfully!");
-      } else {
-        vscode.window.showErrorMessage("Failed to apply edit");
-      }
+      await applySuggestion({ fileName, content }, this.astParser);
     } catch (error: any) {
       vscode.window.showErrorMessage(`Failed to apply edit: ${error.message}`);
     }
   }
 
+  private async _handleApplyEditPlan(edits: FileEditSuggestion[]): Promise<void> {
+    try {
+      await applyEditPlan(edits, this.astParser);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to apply edits: ${error.message}`);
+    }
+  }
+
   private async _handleShowDiff(
     original: string,
     suggested: string,
@@ -299,7 +718,29 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async _handleRunCommand(command: string): Promise<void> {
-    await vscode.commands.executeCommand("aiDevAssistant.runCommand", command);
+    const result = await runCommandWithApproval(command, this._isTrusted);
+    if (!result) {
+      return;
+    }
+
+    // Show the output in the chat and keep it in the history so the
+    // assistant can react to it in the next turn
+    const summary = formatCommandResult(result);
+    this.conversation.addNote(summary);
+    this._sendMessageToWebview({
+      type: "commandResult",
+      text: summary,
+      failed: result.timedOut || result.exitCode !== 0,
+    });
+  }
+
+  /** Names and descriptions for the slash-command autocomplete in the chat input. */
+  private async _sendSlashCommands(): Promise<void> {
+    const commands = (await this.templates.getAll()).map(({ name, description }) => ({
+      name,
+      description,
+    }));
+    this._sendMessageToWebview({ type: "slashCommands", commands });
   }
 
   private _sendMessageToWebview(message: any): void {
@@ -0,0 +1,165 @@
+import { ChatMessage, askLLM } from "../aiService";
+import { AgentTool, ToolResult } from "./agentTools";
+
+export interface AgentStep {
+  /** 1-based; the same step is reported again when its tool finishes */
+  index: number;
+  tool: string;
+  args: Record<string, any>;
+  status: "running" | ToolResult["status"];
+  output?: string;
+}
+
+export interface AgentOptions {
+  tools: AgentTool[];
+  /** Earlier chat turns, so the task can refer to them */
+  history: ChatMessage[];
+  maxSteps: number;
+  signal: AbortSignal;
+  onStep: (step: AgentStep) => void;
+}
+
+export interface AgentResult {
+  answer: string;
+  steps: number;
+  stopped: boolean;
+}
+
+export interface ToolCall {
+  tool: string;
+  args: Record<string, any>;
+  /** Set when the reply tried to call a tool but the call could not be read */
+  error?: string;
+}
+
+// Tool output is cut before it goes back to the model, so one big file or
+// command log cannot push the task out of the context window
+const MAX_TOOL_OUTPUT_CHARS = 12000;
+
+/**
+ * Run a task as a tool-calling loop. The providers only exchange text, so
+ * tools are called with a fenced JSON block; each result goes back to the
+ * model as the next user message. The loop ends when the model answers
+ * without calling a tool, when the step limit is reached or on abort.
+ */
+export async function runAgent(task: string, options: AgentOptions): Promise<AgentResult> {
+  const { tools, maxSteps, signal, onStep } = options;
+  const messages: ChatMessage[] = [
+    { role: "system", content: buildSystemPrompt(tools, maxSteps) },
+    ...options.history,
+    { role: "user", content: task },
+  ];
+
+  for (let index = 1; index <= maxSteps; index++) {
+    const response = await askLLM(messages, { signal, command: "agent" });
+    if (signal.aborted) {
+      return { answer: "", steps: index - 1, stopped: true };
+    }
+
+    const call = parseToolCall(response);
+    if (!call || response.startsWith("❌")) {
+      return { answer: response.trim(), steps: index - 1, stopped: false };
+    }
+
+    messages.push({ role: "assistant", content: response });
+    const step: AgentStep = { index, tool: call.tool || "invalid call", args: call.args, status: "running" };
+    onStep(step);
+
+    const result = await runTool(call, tools, signal);
+    onStep({ ...step, status: result.status, output: result.output });
+    if (signal.aborted) {
+      return { answer: "", steps: index, stopped: true };
+    }
+
+    messages.push({
+      role: "user",
+      content: `Result of ${step.tool} (${result.status}):\n${truncate(result.output)}`,
+    });
+  }
+
+  // Out of steps: ask for an answer from what was found so far
+  messages.push({
+    role: "user",
+    content: `You have used all ${maxSteps} tool calls. Answer now with what you found, without calling a tool.`,
+  });
+  const response = await askLLM(messages, { signal, command: "agent" });
+  const answer = parseToolCall(response)
+    ? `Stopped after ${maxSteps} steps without finishing the task.`
+    : response.trim();
+  return { answer, steps: maxSteps, stopped: signal.aborted };
+}
+
+/**
+ * The tool call in a model reply: a ```tool block (a ```json block or a bare
+ * object with a "tool" key is accepted too). Undefined for a final answer.
+ */
+export function parseToolCall(response: string): ToolCall | undefined {
+  const blocks = [...response.matchAll(/```([\w-]*)[^\n]*\n([\s\S]*?)```/g)].map((m) => ({
+    label: m[1],
+    body: m[2],
+  }));
+  if (blocks.length === 0 && response.trim().startsWith("{")) {
+    blocks.push({ label: "", body: response.trim() });
+  }
+
+  for (const { label, body } of blocks) {
+    if (label !== "tool" && label !== "json" && label !== "") continue;
+
+    let parsed: any;
+    let error = 'Expected {"tool": ..., "args": {...}}';
+    try {
+      parsed = JSON.parse(body);
+    } catch (e: any) {
+      error = `Invalid JSON: ${e.message}`;
+    }
+    if (parsed && typeof parsed === "object" && typeof parsed.tool === "string") {
+      const args = parsed.args && typeof parsed.args === "object" ? parsed.args : {};
+      return { tool: parsed.tool, args };
+    }
+    // Only a block labelled "tool" is certainly meant as a call
+    if (label === "tool") {
+      return { tool: "", args: {}, error };
+    }
+  }
+  return undefined;
+}
+
+async function runTool(call: ToolCall, tools: AgentTool[], signal: AbortSignal): Promise<ToolResult> {
+  if (call.error) {
+    return { status: "failed", output: `Could not read the tool call. ${call.error}` };
+  }
+
+  const tool = tools.find((t) => t.name === call.tool);
+  if (!tool) {
+    const names = tools.map((t) => t.name).join(", ");
+    return { status: "failed", output: `Unknown tool "${call.tool}". Available tools: ${names}` };
+  }
+
+  try {
+    return await tool.run(call.args, signal);
+  } catch (error: any) {
+    return { status: "failed", output: error.message ?? String(error) };
+  }
+}
+
+function buildSystemPrompt(tools: AgentTool[], maxSteps: number): string {
+  const toolList = tools.map((t) => `- ${t.name} ${t.args}: ${t.description}`).join("\n");
+  return `You are an AI coding agent working inside VS Code on the user's workspace. Work through the user's task step by step, using tools to look at the code and to change it.
+
+To call a tool, reply with a single fenced block and nothing after it:
+\`\`\`tool
+{"tool": "read_file", "args": {"path": "src/index.ts"}}
+\`\`\`
+The result comes back in the next message. Call one tool per reply and at most ${maxSteps} in total. Look at the code before you change it. Edits and commands only happen once the user approves them; when the user declines, do not retry the same action.
+
+When the task is done, or you cannot make progress, reply with the final answer in markdown and no tool block: what you found or changed, and anything left for the user to do.
+
+Tools:
+${toolList}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_OUTPUT_CHARS
+    ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n... (truncated)`
+    : text;
+}
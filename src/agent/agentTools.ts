@@ -0,0 +1,276 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ASTParser } from "../codeAnalysis/astParser";
+import { CodebaseIndexer } from "../codeAnalysis/codebaseIndexer";
+import { SemanticSearch } from "../search/semanticSearch";
+import { resolveWorkspaceFile } from "../workspaceFiles";
+import { formatCommandResult, runCommandWithApproval } from "../commandRunner";
+import { planSuggestionEdit } from "../editing/editApplier";
+import { isExcludedFromAI } from "../privacy/excludedFiles";
+
+export interface ToolResult {
+  /** "declined" when the user did not approve a write or a command */
+  status: "done" | "failed" | "declined";
+  output: string;
+}
+
+export interface AgentTool {
+  name: string;
+  /** Arguments as shown to the model, e.g. "{path, startLine?, endLine?}" */
+  args: string;
+  description: string;
+  run(args: Record<string, any>, signal: AbortSignal): Promise<ToolResult>;
+}
+
+export interface AgentToolDependencies {
+  parser: ASTParser;
+  indexer: CodebaseIndexer;
+  search: SemanticSearch;
+  /** Workspace trust can be granted after the tools were created */
+  isTrusted: () => boolean;
+}
+
+const MAX_READ_LINES = 300;
+const MAX_SEARCH_RESULTS = 20;
+const MAX_CALLERS = 10;
+
+/**
+ * The tools the agent can call. Reading tools run right away; propose_edit
+ * and run_command ask the user first and report a declined request back to
+ * the model instead of failing.
+ */
+export function createAgentTools(deps: AgentToolDependencies): AgentTool[] {
+  return [
+    {
+      name: "read_file",
+      args: "{path, startLine?, endLine?}",
+      description: `Read a workspace file with line numbers, at most ${MAX_READ_LINES} lines at a time.`,
+      run: async (args) => {
+        const uri = await findWorkspaceFile(requireString(args, "path"));
+        const lines = (await vscode.workspace.openTextDocument(uri)).getText().split(/\r?\n/);
+        const start = clamp(Number(args.startLine) || 1, 1, lines.length);
+        const end = clamp(Number(args.endLine) || start + MAX_READ_LINES - 1, start, lines.length);
+        const shownEnd = Math.min(end, start + MAX_READ_LINES - 1);
+
+        const numbered = lines
+          .slice(start - 1, shownEnd)
+          .map((line, i) => `${String(start + i).padStart(5)} | ${line}`)
+          .join("\n");
+        const header = `${vscode.workspace.asRelativePath(uri)} (lines ${start}-${shownEnd} of ${lines.length})`;
+        return done(`${header}\n${numbered}`);
+      },
+    },
+    {
+      name: "list_functions",
+      args: "{path}",
+      description: "List the functions, classes and type declarations in a file, with their line ranges.",
+      run: async (args) => {
+        const uri = await findWorkspaceFile(requireString(args, "path"));
+        let analysis = deps.indexer.getIndex().files.get(uri.fsPath);
+        if (!analysis) {
+          const document = await vscode.workspace.openTextDocument(uri);
+          analysis = deps.parser.parseFile(document.getText(), document.languageId) ?? undefined;
+        }
+        if (!analysis) {
+          return failed(`${args.path} is not in a supported language.`);
+        }
+
+        const lines = [
+          ...analysis.functions.map((f) => `- L${f.lineStart}-${f.lineEnd}: ${f.signature}`),
+          ...analysis.classes.map((name) => `- class ${name}`),
+          ...analysis.declarations.map((d) => `- L${d.lineStart}-${d.lineEnd}: ${d.kind} ${d.name}`),
+        ];
+        const relative = vscode.workspace.asRelativePath(uri);
+        return done(lines.length > 0 ? `${relative}:\n${lines.join("\n")}` : `${relative} declares nothing.`);
+      },
+    },
+    {
+      name: "find_symbol",
+      args: "{name}",
+      description: "Find where a function, class, interface, type or constant is defined, and who calls it.",
+      run: async (args) => {
+        const name = requireString(args, "name");
+        const definitions = deps.indexer.findDefinitions(name).filter((d) => !isExcludedFromAI(d.filePath));
+        if (definitions.length === 0) {
+          return done(`No definition of ${name} in the workspace index.`);
+        }
+
+        const lines = definitions.map((d) => {
+          const relative = vscode.workspace.asRelativePath(d.filePath);
+          if (d.func) return `- ${relative}:${d.func.lineStart}-${d.func.lineEnd} ${d.func.signature}`;
+          if (d.declaration) {
+            return `- ${relative}:${d.declaration.lineStart}-${d.declaration.lineEnd} ${d.declaration.kind} ${name}`;
+          }
+          return `- ${relative} class ${name}`;
+        });
+
+        const callers = deps.indexer.getCallers(name).filter((c) => !isExcludedFromAI(c.filePath));
+        if (callers.length > 0) {
+          lines.push(`Called by ${callers.length} function(s):`);
+          for (const caller of callers.slice(0, MAX_CALLERS)) {
+            lines.push(`- ${caller.func.name} (${vscode.workspace.asRelativePath(caller.filePath)}:${caller.func.lineStart})`);
+          }
+          if (callers.length > MAX_CALLERS) {
+            lines.push(`- ... and ${callers.length - MAX_CALLERS} more`);
+          }
+        }
+        return done(lines.join("\n"));
+      },
+    },
+    {
+      name: "search_workspace",
+      args: "{query, limit?}",
+      description: "Search the workspace's functions by what they do, in natural language or keywords.",
+      run: async (args, signal) => {
+        const query = requireString(args, "query");
+        const limit = clamp(Number(args.limit) || 8, 1, MAX_SEARCH_RESULTS);
+        const results = (await deps.search.search(query, limit, signal)).filter(
+          (r) => !isExcludedFromAI(r.chunk.filePath)
+        );
+        if (results.length === 0) {
+          return done(`Nothing in the workspace matches "${query}".`);
+        }
+        return done(
+          results
+            .map(
+              ({ chunk, score }) =>
+                `- ${vscode.workspace.asRelativePath(chunk.filePath)}:${chunk.func.lineStart}-${chunk.func.lineEnd} ` +
+                `${chunk.func.signature} (score ${score.toFixed(2)})`
+            )
+            .join("\n")
+        );
+      },
+    },
+    {
+      name: "propose_edit",
+      args: "{path, content, description}",
+      description:
+        "Change a file. content is either one complete function (replaces that function) or the complete new " +
+        "file; a path that does not exist creates the file. The user approves or rejects the edit.",
+      run: (args) => proposeEdit(deps.parser, args),
+    },
+    {
+      name: "run_command",
+      args: "{command}",
+      description: "Run a shell command in the workspace folder, e.g. the tests or the build. The user approves it first.",
+      run: async (args, signal) => {
+        const command = requireString(args, "command");
+        const result = await runCommandWithApproval(command, deps.isTrusted(), {
+          cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+          prompt: "The agent wants to run this command. Allow it?",
+          signal,
+        });
+        if (!result) {
+          return declined("The command was not run: the user declined it, or it is blocked in this workspace.");
+        }
+        const output = formatCommandResult(result);
+        return result.timedOut || result.exitCode !== 0 ? failed(output) : done(output);
+      },
+    },
+  ];
+}
+
+async function proposeEdit(parser: ASTParser, args: Record<string, any>): Promise<ToolResult> {
+  const fileName = requireString(args, "path");
+  const content = requireString(args, "content");
+  const description = typeof args.description === "string" ? args.description : "";
+
+  const existing = await resolveWorkspaceFile(fileName);
+  if (!existing) {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder || path.isAbsolute(fileName)) {
+      return failed(`${fileName} does not exist and cannot be created outside the workspace.`);
+    }
+    // "../x" joins to a path outside the folder
+    const uri = vscode.Uri.joinPath(folder.uri, fileName);
+    assertInWorkspace(uri);
+    const relative = vscode.workspace.asRelativePath(uri);
+    const choice = await vscode.window.showWarningMessage(
+      `The agent wants to create ${relative}.`,
+      { modal: true, detail: description },
+      "Create"
+    );
+    if (choice !== "Create") {
+      return declined(`The user rejected creating ${relative}.`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.createFile(uri, { ignoreIfExists: false });
+    edit.insert(uri, new vscode.Position(0, 0), content);
+    return (await vscode.workspace.applyEdit(edit))
+      ? done(`Created ${relative}.`)
+      : failed(`Could not create ${relative}.`);
+  }
+
+  assertInWorkspace(existing);
+  const relative = vscode.workspace.asRelativePath(existing);
+  const document = await vscode.workspace.openTextDocument(existing);
+  const planned = planSuggestionEdit(document, content, parser);
+  const target = planned.scope === "function" ? `${planned.functionName}() in ${relative}` : relative;
+
+  const choice = await vscode.window.showWarningMessage(
+    `The agent wants to edit ${target}.`,
+    { modal: true, detail: description },
+    "Apply",
+    "Review Diff"
+  );
+  if (choice === "Review Diff") {
+    await vscode.commands.executeCommand("aiDevAssistant.showDiff", undefined, content, existing.fsPath);
+    return done(
+      `The edit to ${target} is open in a diff review; the user accepts or rejects its changes there. ` +
+        "Do not assume it was applied."
+    );
+  }
+  if (choice !== "Apply") {
+    return declined(`The user rejected the edit to ${target}.`);
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(existing, planned.range, planned.text);
+  return (await vscode.workspace.applyEdit(edit))
+    ? done(`Applied the edit to ${target}.`)
+    : failed(`Could not apply the edit to ${target}.`);
+}
+
+/** Resolve a path from the model; files outside the workspace are off limits. */
+async function findWorkspaceFile(fileName: string): Promise<vscode.Uri> {
+  const uri = await resolveWorkspaceFile(fileName);
+  if (!uri) {
+    throw new Error(`File not found: ${fileName}`);
+  }
+  assertInWorkspace(uri);
+  if (isExcludedFromAI(uri)) {
+    throw new Error(`${fileName} is excluded from AI requests; work without it.`);
+  }
+  return uri;
+}
+
+function assertInWorkspace(uri: vscode.Uri): void {
+  if (!vscode.workspace.getWorkspaceFolder(uri)) {
+    throw new Error(`${uri.fsPath} is outside the workspace.`);
+  }
+}
+
+function requireString(args: Record<string, any>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Missing argument "${key}".`);
+  }
+  return value;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function done(output: string): ToolResult {
+  return { status: "done", output };
+}
+
+function failed(output: string): ToolResult {
+  return { status: "failed", output };
+}
+
+function declined(output: string): ToolResult {
+  return { status: "declined", output };
+}
@@ -1,11 +1,31 @@
 import axios, { AxiosError } from "axios";
 import * as vscode from "vscode";
+import {
+  ChatMessage,
+  DEFAULT_BASE_URLS,
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+  createProvider,
+  normalizeProviderId,
+} from "./providers";
+import { estimateTokens } from "./context/contextBuilder";
+import { redactSecrets } from "./privacy/secretRedaction";
+import { ResponseCache, getCacheConfig, requestKey } from "./cache/responseCache";
+import { getFixtureConfig, readFixture, writeFixture } from "./cache/fixtures";
+
+export type { ChatMessage, ChatRole } from "./providers";
 
 function getVSCodeConfig() {
   const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  const provider = normalizeProviderId(config.get<string>("provider"));
   return {
-    baseUrl: config.get<string>("baseUrl") || "http://localhost:8080/api",
-    provider: config.get<string>("provider") || "gemini",
+    baseUrl: (config.get<string>("baseUrl") || DEFAULT_BASE_URLS[provider]).replace(/\/+$/, ""),
+    provider,
+    apiKey: config.get<string>("apiKey") || process.env.OPENAI_API_KEY || "",
+    model: config.get<string>("model") || "gpt-4",
+    maxTokens: config.get<number>("maxTokens") ?? 2000,
+    temperature: config.get<number>("temperature") ?? 0.7,
   };
 }
 
@@ -21,41 +41,295 @@ When suggesting code changes:
 1. Provide clear explanations
 2. Show complete code blocks with proper syntax highlighting
 3. Explain the reasoning behind changes
+4. When a code block is meant for a specific file, put its workspace-relative path after the language, e.g. \`\`\`ts src/utils.ts
 
 Keep responses concise but thorough.`;
 
-export async function askLLM(userPrompt: string): Promise<string> {
+/**
+ * Normalize a single prompt or a message history into a transcript that
+ * always starts with the system prompt.
+ */
+function toMessages(input: string | ChatMessage[]): ChatMessage[] {
+  const messages: ChatMessage[] =
+    typeof input === "string" ? [{ role: "user", content: input }] : input;
+
+  if (messages.length > 0 && messages[0].role === "system") {
+    return messages;
+  }
+  return [{ role: "system", content: SYSTEM_PROMPT }, ...messages];
+}
+
+export interface AskOptions {
+  /** Receives each piece of text as it streams in. Enables streaming. */
+  onChunk?: (text: string) => void;
+  /** Aborts the request; text received so far is returned. */
+  signal?: AbortSignal;
+  /** The feature making the request ("chat", "review", ...), for the usage breakdown */
+  command?: string;
+  /** Always ask the backend, even when the answer is cached (fixture replay still applies) */
+  bypassCache?: boolean;
+}
+
+const responseCache = new ResponseCache();
+
+/** Forget all cached responses; returns how many there were. */
+export function clearResponseCache(): number {
+  return responseCache.clear();
+}
+
+export interface UsageEvent {
+  command: string;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  /** Counted from the text because the backend reported no usage */
+  estimated: boolean;
+}
+
+/** Keeps track of token usage and may refuse requests once a budget is spent. */
+export interface UsageRecorder {
+  /** Why the next request must not be sent, or undefined to go ahead */
+  checkBudget(): string | undefined;
+  record(event: UsageEvent): void;
+}
+
+let usageRecorder: UsageRecorder | undefined;
+
+/** Set on activation; without a recorder requests are not tracked. */
+export function setUsageRecorder(recorder: UsageRecorder | undefined): void {
+  usageRecorder = recorder;
+}
+
+/** A request as it will leave the machine, after secrets were masked. */
+export interface OutgoingRequest {
+  command: string;
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  /** Pattern name of every masked secret */
+  redacted: string[];
+}
+
+/** Lets the user look at a request and decide whether it is sent. */
+export interface PayloadReviewer {
+  approve(request: OutgoingRequest): Promise<boolean>;
+}
+
+let payloadReviewer: PayloadReviewer | undefined;
+
+/** Set on activation; without a reviewer requests are sent right away. */
+export function setPayloadReviewer(reviewer: PayloadReviewer | undefined): void {
+  payloadReviewer = reviewer;
+}
+
+export async function askLLM(
+  input: string | ChatMessage[],
+  options: AskOptions = {}
+): Promise<string> {
   const config = getVSCodeConfig();
+  const provider = createProvider(config.provider, {
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+  });
+  // Secrets never leave the machine, whatever the caller put in the prompt
+  const { messages, found } = redactSecrets(toMessages(input));
+  const request: LLMRequest = {
+    messages,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+  };
+
+  const command = options.command ?? "other";
+  const key = requestKey(provider.id, request);
+  const fixtures = getFixtureConfig();
+  if (fixtures.mode === "replay") {
+    // Offline: answer from the recorded fixtures and never reach a backend
+    const fixture = fixtures.directory && (await readFixture(fixtures.directory, key));
+    if (!fixture) {
+      return (
+        "❌ No recorded response for this request. aiDevAssistant.fixtures.mode is \"replay\"; " +
+        "record it first."
+      );
+    }
+    return replay(fixture.response, options.onChunk);
+  }
+
+  const cacheConfig = getCacheConfig();
+  const cached =
+    cacheConfig.enabled && !options.bypassCache ? responseCache.get(key, cacheConfig.ttlMs) : undefined;
+  if (cached !== undefined) {
+    vscode.window.setStatusBarMessage("$(database) AI response from cache", 3000);
+    return replay(cached, options.onChunk);
+  }
+
+  const blocked = usageRecorder?.checkBudget();
+  if (blocked) {
+    return `❌ ${blocked}`;
+  }
+  if (found.length > 0) {
+    vscode.window.setStatusBarMessage(`$(shield) Masked ${found.length} secret(s) in the AI request`, 5000);
+  }
+  const approved =
+    !payloadReviewer ||
+    (await payloadReviewer.approve({
+      command,
+      provider: provider.id,
+      model: config.model,
+      messages,
+      redacted: found,
+    }));
+  if (!approved) {
+    return "❌ Request not sent: it was not approved in the preview.";
+  }
+
+  const record = (content: string, usage?: TokenUsage) =>
+    usageRecorder?.record({
+      command,
+      provider: provider.id,
+      model: config.model,
+      usage: usage ?? estimateUsage(request, content),
+      estimated: !usage,
+    });
+
+  // Collected here rather than in the provider so a stopped stream still
+  // returns the text that already arrived
+  let streamed = "";
 
   try {
-    const endpoint = `${config.baseUrl}/ai-chat-gemini`;
-
-    const response = await axios.post(
-      endpoint,
-      {
-        message: userPrompt,
-        systemPrompt: SYSTEM_PROMPT,
-        codeContext: null
-      },
-      {
-        headers: { "Content-Type": "application/json" },
-        timeout: 60000,
-      }
-    );
-
-    const data = response.data;
-    
-    if (data.tokens) {
-      console.log(`Tokens - Input: ${data.tokens.input}, Output: ${data.tokens.output}, Total: ${data.tokens.total}`);
+    let response: LLMResponse;
+    if (options.onChunk) {
+      const onChunk = options.onChunk;
+      response = await provider.stream(
+        request,
+        (text) => {
+          streamed += text;
+          onChunk(text);
+        },
+        options.signal
+      );
+    } else {
+      response = await provider.complete(request, options.signal);
+    }
+
+    record(response.content, response.usage);
+    if (cacheConfig.enabled && response.content) {
+      responseCache.set(key, response.content, cacheConfig);
+    }
+    if (fixtures.mode === "record" && fixtures.directory && response.content) {
+      await writeFixture(fixtures.directory, {
+        key,
+        command,
+        provider: provider.id,
+        model: config.model,
+        messages,
+        response: response.content,
+        usage: response.usage,
+        recordedAt: new Date().toISOString(),
+      });
     }
 
-    return data.content || data;
+    return response.content;
   } catch (error) {
-    console.error("Error calling backend:", error);
-    return handleLLMError(error);
+    if (options.signal?.aborted || axios.isCancel(error)) {
+      // Stopped by the user: keep whatever already arrived. The backend has
+      // still read the prompt, so the request counts.
+      record(streamed);
+      return streamed;
+    }
+    console.error(`Error calling ${provider.id} provider:`, error);
+    const message = handleLLMError(error);
+    return streamed ? `${streamed}\n\n${message}` : message;
   }
 }
 
+export interface EmbedOptions {
+  signal?: AbortSignal;
+  /** Receives each batch's vectors as they arrive, so a later failure keeps them */
+  onBatch?: (start: number, vectors: number[][]) => void;
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Embed `texts` with the configured backend, in batches. The preview asks
+ * once for all of them; the budget is checked before every batch. Throws
+ * when the backend has no embeddings endpoint, the daily budget is spent or
+ * a request fails; callers fall back to lexical search.
+ */
+export async function embedTexts(
+  texts: string[],
+  model: string,
+  options: EmbedOptions = {}
+): Promise<number[][]> {
+  const config = getVSCodeConfig();
+  const provider = createProvider(config.provider, {
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+  });
+  if (!provider.embed) {
+    throw new Error(`The ${provider.id} provider does not support embeddings`);
+  }
+
+  // Embedded text leaves the machine like a prompt does: mask and preview it the same way
+  const { messages, found } = redactSecrets(texts.map((content) => ({ role: "user", content })));
+  if (found.length > 0) {
+    vscode.window.setStatusBarMessage(`$(shield) Masked ${found.length} secret(s) in the AI request`, 5000);
+  }
+  const approved =
+    !payloadReviewer ||
+    (await payloadReviewer.approve({
+      command: "embeddings",
+      provider: provider.id,
+      model,
+      messages,
+      redacted: found,
+    }));
+  if (!approved) {
+    throw new Error("the embeddings request was not approved in the preview");
+  }
+  const inputs = messages.map((m) => m.content);
+  const vectors: number[][] = [];
+  for (let start = 0; start < inputs.length; start += EMBEDDING_BATCH_SIZE) {
+    const blocked = usageRecorder?.checkBudget();
+    if (blocked) {
+      throw new Error(blocked);
+    }
+
+    const batch = inputs.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const batchVectors = await provider.embed(batch, model, options.signal);
+
+    // Backends do not report tokens for embeddings; the input is all there is
+    const input = batch.reduce((sum, text) => sum + estimateTokens(text), 0);
+    usageRecorder?.record({
+      command: "embeddings",
+      provider: provider.id,
+      model,
+      usage: { input, output: 0, total: input },
+      estimated: true,
+    });
+    options.onBatch?.(start, batchVectors);
+    vectors.push(...batchVectors);
+  }
+  return vectors;
+}
+
+/** Hand a stored answer to a streaming caller line by line, as if it arrived from the backend. */
+function replay(content: string, onChunk?: (text: string) => void): string {
+  if (onChunk) {
+    for (const line of content.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+      onChunk(line);
+    }
+  }
+  return content;
+}
+
+function estimateUsage(request: LLMRequest, content: string): TokenUsage {
+  const input = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const output = estimateTokens(content);
+  return { input, output, total: input + output };
+}
+
 function handleLLMError(error: unknown): string {
   if (axios.isAxiosError(error)) {
     const err = error as AxiosError;
@@ -85,7 +359,10 @@ function handleLLMError(error: unknown): string {
 
 export async function testLLMConnection(): Promise<boolean> {
   try {
-    const reply = await askLLM('Hello, this is a test. Please reply with "OK".');
+    const reply = await askLLM('Hello, this is a test. Please reply with "OK".', {
+      command: "connection test",
+      bypassCache: true,
+    });
     return reply.includes("OK");
   } catch {
     return false;
@@ -97,5 +374,7 @@ export function getConfigStatus() {
   return {
     baseUrl: config.baseUrl,
     provider: config.provider,
+    model: config.model,
+    hasApiKey: Boolean(config.apiKey),
   };
 }
\ No newline at end of file
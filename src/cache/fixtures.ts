@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ChatMessage, TokenUsage } from "../providers";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+/** One recorded request/response pair, stored as <key>.json. */
+export interface Fixture {
+  key: string;
+  command: string;
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  response: string;
+  usage?: TokenUsage;
+  recordedAt: string;
+}
+
+// Enough of the sha256 key to keep file names short without collisions
+const FILE_KEY_LENGTH = 24;
+
+export function getFixtureConfig(): { mode: FixtureMode; directory?: vscode.Uri } {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  const mode = config.get<FixtureMode>("fixtures.mode") ?? "off";
+  const setting = config.get<string>("fixtures.directory") || ".vscode/ai-fixtures";
+
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const directory = path.isAbsolute(setting)
+    ? vscode.Uri.file(setting)
+    : folder && vscode.Uri.joinPath(folder, setting);
+  return { mode, directory };
+}
+
+export async function readFixture(directory: vscode.Uri, key: string): Promise<Fixture | undefined> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(fixtureUri(directory, key));
+    const fixture: Fixture = JSON.parse(Buffer.from(bytes).toString("utf8"));
+    return fixture.key === key ? fixture : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Save a pair; pretty-printed so fixtures can be read and edited in review. */
+export async function writeFixture(directory: vscode.Uri, fixture: Fixture): Promise<void> {
+  try {
+    await vscode.workspace.fs.createDirectory(directory);
+    await vscode.workspace.fs.writeFile(
+      fixtureUri(directory, fixture.key),
+      Buffer.from(JSON.stringify(fixture, null, 2) + "\n", "utf8")
+    );
+  } catch (error) {
+    console.error("Failed to record AI fixture:", error);
+  }
+}
+
+function fixtureUri(directory: vscode.Uri, key: string): vscode.Uri {
+  return vscode.Uri.joinPath(directory, `${key.slice(0, FILE_KEY_LENGTH)}.json`);
+}
@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { LLMRequest } from "../providers";
+
+export interface CacheLimits {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  content: string;
+  storedAt: number;
+  bytes: number;
+}
+
+export function getCacheConfig(): CacheLimits & { enabled: boolean } {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    enabled: config.get<boolean>("cache.enabled") ?? true,
+    ttlMs: (config.get<number>("cache.ttlMinutes") ?? 60) * 60 * 1000,
+    maxEntries: config.get<number>("cache.maxEntries") ?? 200,
+    maxBytes: (config.get<number>("cache.maxSizeMB") ?? 10) * 1024 * 1024,
+  };
+}
+
+/**
+ * Hash identifying a request: provider, model, sampling settings and every
+ * message (the prompt with its code context and the history). The base URL
+ * is left out so recorded fixtures work against any proxy address.
+ */
+export function requestKey(providerId: string, request: LLMRequest): string {
+  const identity = JSON.stringify([
+    providerId,
+    request.model,
+    request.temperature,
+    request.maxTokens,
+    request.messages.map((m) => [m.role, m.content]),
+  ]);
+  return crypto.createHash("sha256").update(identity).digest("hex");
+}
+
+/**
+ * In-memory responses for repeated requests, least recently used first
+ * (the Map's insertion order), bounded by age, count and size.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+
+  public get(key: string, ttlMs: number): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.storedAt > ttlMs) {
+      this.remove(key);
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.content;
+  }
+
+  public set(key: string, content: string, limits: CacheLimits): void {
+    this.remove(key);
+    const bytes = Buffer.byteLength(content, "utf8");
+    if (bytes > limits.maxBytes || limits.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.set(key, { content, storedAt: Date.now(), bytes });
+    this.bytes += bytes;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= limits.maxEntries && this.bytes <= limits.maxBytes) break;
+      this.remove(oldest);
+    }
+  }
+
+  /** Drop everything; returns how many responses were cached. */
+  public clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.bytes = 0;
+    return count;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import Parser from "tree-sitter";
+import { LANGUAGES, LanguageDefinition, PARAMETER_NODE_TYPES, getLanguage } from "./languageRegistry";
+import { measureComplexity } from "./complexity";
 
 export interface FunctionMetadata {
   name: string;
@@ -8,7 +10,11 @@ export interface FunctionMetadata {
   lineStart: number;
   lineEnd: number;
   visibility?: string;
+  /** Cyclomatic complexity */
   complexity: number;
+  cognitiveComplexity: number;
+  /** Names of the functions, methods and constructors this function calls */
+  calls: string[];
 }
 
 export interface FileAnalysis {
@@ -17,6 +23,17 @@ export interface FileAnalysis {
   functions: FunctionMetadata[];
   classes: string[];
   imports: string[];
+  /** Interfaces, type aliases, enums and exported constants */
+  declarations: DeclarationMetadata[];
+  /** Set by CodebaseIndexer; used to skip unchanged files */
+  contentHash?: string;
+}
+
+export interface DeclarationMetadata {
+  name: string;
+  kind: "interface" | "type" | "enum" | "constant";
+  lineStart: number;
+  lineEnd: number;
 }
 
 export class ASTParser {
@@ -28,48 +45,21 @@ export class ASTParser {
   }
 
   private initializeParsers() {
-    try {
-      const Java = require("tree-sitter-java");
-      const javaParser = new Parser();
-      javaParser.setLanguage(Java);
-      this.parsers.set("java", javaParser);
-    } catch (e) {
-      console.log("Java parser not available");
-    }
-
-    try {
-      const JavaScript = require("tree-sitter-javascript");
-      const jsParser = new Parser();
-      jsParser.setLanguage(JavaScript);
-      this.parsers.set("javascript", jsParser);
-      this.parsers.set("javascriptreact", jsParser);
-    } catch (e) {
-      console.log("JavaScript parser not available");
-    }
-
-    try {
-      const TypeScript = require("tree-sitter-typescript");
-      const tsParser = new Parser();
-      tsParser.setLanguage(TypeScript.typescript);
-      this.parsers.set("typescript", tsParser);
-      this.parsers.set("typescriptreact", tsParser);
-    } catch (e) {
-      console.log("TypeScript parser not available");
-    }
-
-    try {
-      const Python = require("tree-sitter-python");
-      const pyParser = new Parser();
-      pyParser.setLanguage(Python);
-      this.parsers.set("python", pyParser);
-    } catch (e) {
-      console.log("Python parser not available");
+    for (const language of LANGUAGES) {
+      try {
+        const parser = new Parser();
+        parser.setLanguage(language.loadGrammar());
+        this.parsers.set(language.id, parser);
+      } catch (e) {
+        console.log(`${language.displayName} parser not available`);
+      }
     }
   }
 
   public parseFile(code: string, language: string): FileAnalysis | null {
     const parser = this.parsers.get(language);
-    if (!parser) {
+    const definition = getLanguage(language);
+    if (!parser || !definition) {
       return null;
     }
 
@@ -83,9 +73,10 @@ export class ASTParser {
         functions: [],
         classes: [],
         imports: [],
+        declarations: [],
       };
 
-      this.walkTree(rootNode, code, analysis);
+      this.walkTree(rootNode, code, analysis, definition);
       return analysis;
     } catch (error) {
       console.error("Error parsing file:", error);
@@ -93,22 +84,69 @@ export class ASTParser {
     }
   }
 
-  private walkTree(node: any, code: string, analysis: FileAnalysis) {
-    if (node.type === "method_declaration" || node.type === "function_declaration") {
-      const funcMetadata = this.extractFunctionMetadata(node, code);
+  /** The raw syntax tree, for callers that need more than a FileAnalysis (e.g. merging code). */
+  public parseTree(code: string, language: string): Parser.Tree | null {
+    const parser = this.parsers.get(language);
+    if (!parser) {
+      return null;
+    }
+
+    try {
+      return parser.parse(code);
+    } catch (error) {
+      console.error("Error parsing file:", error);
+      return null;
+    }
+  }
+
+  private walkTree(node: any, code: string, analysis: FileAnalysis, language: LanguageDefinition) {
+    const { nodeTypes } = language;
+
+    if (nodeTypes.functions.includes(node.type)) {
+      const funcMetadata = this.extractFunctionMetadata(node, code, language);
       if (funcMetadata) {
         analysis.functions.push(funcMetadata);
       }
     }
 
-    if (node.type === "class_declaration") {
+    // Arrow functions and function expressions are named after what they are
+    // assigned to; anonymous callbacks are skipped
+    if (nodeTypes.anonymousFunctions.includes(node.type)) {
+      const owner = this.getAssignedName(node);
+      if (owner) {
+        const funcMetadata = this.extractFunctionMetadata(node, code, language, owner);
+        if (funcMetadata) {
+          analysis.functions.push(funcMetadata);
+        }
+      }
+    }
+
+    if (nodeTypes.classes.includes(node.type)) {
       const className = this.getNodeText(node.childForFieldName("name"), code);
       if (className) {
         analysis.classes.push(className);
       }
     }
 
-    if (node.type === "import_declaration" || node.type === "import_statement") {
+    const declarationKind = nodeTypes.declarations[node.type];
+    if (declarationKind) {
+      const name = this.getNodeText(node.childForFieldName("name"), code);
+      if (name) {
+        analysis.declarations.push({
+          name,
+          kind: declarationKind,
+          lineStart: node.startPosition.row + 1,
+          lineEnd: node.endPosition.row + 1,
+        });
+      }
+    }
+
+    // export const X = ...; (function values are already listed as functions)
+    if (node.type === "export_statement") {
+      this.extractExportedConstants(node, code, analysis, language);
+    }
+
+    if (nodeTypes.imports.includes(node.type)) {
       const importText = this.getNodeText(node, code);
       if (importText) {
         analysis.imports.push(importText);
@@ -116,84 +154,272 @@ export class ASTParser {
     }
 
     for (const child of node.children) {
-      this.walkTree(child, code, analysis);
+      this.walkTree(child, code, analysis, language);
+    }
+  }
+
+  /**
+   * The node an anonymous function is assigned to, e.g. the declarator in
+   * `const add = () => ...` or the pair in `{ add: () => ... }`.
+   */
+  private getAssignedName(node: any): { nameNode: any; node: any } | null {
+    const parent = node.parent;
+    if (!parent) {
+      return null;
+    }
+
+    switch (parent.type) {
+      case "variable_declarator": // const add = () => ...
+      case "public_field_definition": // TS class field: add = () => ...
+        return parent.childForFieldName("value")?.startIndex === node.startIndex
+          ? { nameNode: parent.childForFieldName("name"), node: parent }
+          : null;
+      case "field_definition": // JS class field
+        return { nameNode: parent.childForFieldName("property"), node: parent };
+      case "pair": // { add: () => ... }
+        return { nameNode: parent.childForFieldName("key"), node: parent };
+      case "assignment_expression": {
+        // obj.add = function () {}  /  add = () => ...
+        const left = parent.childForFieldName("left");
+        if (parent.childForFieldName("right")?.startIndex !== node.startIndex || !left) {
+          return null;
+        }
+        return { nameNode: left.childForFieldName("property") ?? left, node: parent };
+      }
+      default:
+        return null;
     }
   }
 
-  private extractFunctionMetadata(node: any, code: string): FunctionMetadata | null {
-    const name = this.getNodeText(node.childForFieldName("name"), code);
+  private extractExportedConstants(
+    node: any,
+    code: string,
+    analysis: FileAnalysis,
+    language: LanguageDefinition
+  ) {
+    const declaration = node.childForFieldName("declaration");
+    if (declaration?.type !== "lexical_declaration") {
+      return;
+    }
+
+    for (const declarator of declaration.namedChildren) {
+      if (declarator.type !== "variable_declarator") continue;
+
+      const value = declarator.childForFieldName("value");
+      const nameNode = declarator.childForFieldName("name");
+      if (!nameNode || nameNode.type !== "identifier") continue;
+      if (value && language.nodeTypes.anonymousFunctions.includes(value.type)) continue;
+
+      analysis.declarations.push({
+        name: this.getNodeText(nameNode, code),
+        kind: "constant",
+        lineStart: declarator.startPosition.row + 1,
+        lineEnd: declarator.endPosition.row + 1,
+      });
+    }
+  }
+
+  private extractFunctionMetadata(
+    node: any,
+    code: string,
+    language: LanguageDefinition,
+    owner?: { nameNode: any; node: any }
+  ): FunctionMetadata | null {
+    const name = this.getNodeText(owner ? owner.nameNode : node.childForFieldName("name"), code);
     if (!name) {
       return null;
     }
 
-    const params = this.extractParameters(node.childForFieldName("parameters"), code);
-    const returnType = this.extractReturnType(node, code);
-    const visibility = this.extractVisibility(node, code);
+    // For assigned functions the range and signature start at the assignment
+    const outer = owner ? owner.node : node;
+    const params = this.extractParameters(
+      node.childForFieldName("parameters") ?? node.childForFieldName("parameter"),
+      code
+    );
+    const returnType = this.extractReturnType(node, code, language);
+    const visibility = this.extractVisibility(outer, code, language, name);
+    const metrics = measureComplexity(node, language);
 
     return {
       name,
-      signature: this.getNodeText(node, code).split("{")[0].trim(),
+      signature: this.extractSignature(outer, node, code),
       params,
       returnType,
-      lineStart: node.startPosition.row + 1,
-      lineEnd: node.endPosition.row + 1,
+      lineStart: outer.startPosition.row + 1,
+      lineEnd: outer.endPosition.row + 1,
       visibility,
-      complexity: this.calculateComplexity(node),
+      complexity: metrics.cyclomatic,
+      cognitiveComplexity: metrics.cognitive,
+      calls: this.extractCalls(node, code),
     };
   }
 
+  /** Everything before the body, e.g. `def f(a: int) -> str` or `add = (a, b) =>`. */
+  private extractSignature(outer: any, node: any, code: string): string {
+    const body = node.childForFieldName("body");
+    if (!body) {
+      return this.getNodeText(outer, code).split("{")[0].trim();
+    }
+    return code
+      .substring(outer.startIndex, body.startIndex)
+      .trim()
+      .replace(/\s*(=>|:)$/, "");
+  }
+
   private extractParameters(paramsNode: any, code: string): Array<{ type: string; name: string }> {
     if (!paramsNode) {
       return [];
     }
-    
+
     const params: Array<{ type: string; name: string }> = [];
 
-    for (const child of paramsNode.children) {
-      if (child.type === "formal_parameter" || child.type === "parameter") {
-        const typeNode = child.childForFieldName("type");
-        const nameNode = child.childForFieldName("name");
+    // A single unparenthesized arrow parameter: x => x * 2
+    if (paramsNode.type === "identifier") {
+      return [{ type: "unknown", name: this.getNodeText(paramsNode, code) }];
+    }
+
+    for (const child of paramsNode.namedChildren) {
+      if (!PARAMETER_NODE_TYPES.includes(child.type)) {
+        continue;
+      }
+
+      // Python's implicit receiver is not a real parameter
+      if (child.type === "identifier" && ["self", "cls"].includes(this.getNodeText(child, code))) {
+        continue;
+      }
+
+      // Go: a, b int declares two parameters
+      if (child.type === "parameter_declaration" || child.type === "variadic_parameter_declaration") {
+        const type = this.getNodeText(child.childForFieldName("type"), code);
+        for (const nameNode of child.childrenForFieldName("name")) {
+          params.push({
+            type: child.type === "variadic_parameter_declaration" ? `...${type}` : type,
+            name: this.getNodeText(nameNode, code),
+          });
+        }
+        continue;
+      }
+
+      // Java varargs: String... names
+      if (child.type === "spread_parameter") {
+        const declarator = child.namedChildren.find((c: any) => c.type === "variable_declarator");
         params.push({
-          type: typeNode ? this.getNodeText(typeNode, code) : "unknown",
-          name: nameNode ? this.getNodeText(nameNode, code) : "unknown",
+          type: `${this.getNodeText(child.namedChildren[0], code)}...`,
+          name: this.getNodeText(declarator?.childForFieldName("name"), code) || "unknown",
         });
+        continue;
+      }
+
+      const typeNode = child.childForFieldName("type");
+      // The parameter name sits under a different field in every grammar;
+      // destructuring and splat patterns keep their full text
+      const nameNode =
+        child.childForFieldName("name") ??
+        child.childForFieldName("pattern") ??
+        child.childForFieldName("left") ??
+        (child.type === "typed_parameter" ? child.namedChildren[0] : child);
+
+      // TypeScript's `this` parameter only annotates the receiver type
+      if (nameNode?.type === "this") {
+        continue;
       }
+
+      params.push({
+        type: typeNode ? this.getNodeText(typeNode, code).replace(/^:\s*/, "") : "unknown",
+        name: nameNode ? this.getNodeText(nameNode, code) : "unknown",
+      });
     }
     return params;
   }
 
-  private extractReturnType(node: any, code: string): string {
-    const typeNode = node.childForFieldName("type");
-    return typeNode ? this.getNodeText(typeNode, code) : "void";
+  private extractReturnType(node: any, code: string, language: LanguageDefinition): string {
+    // Java and C# put the return type in `type`, Go in `result`; TS, Python
+    // and Rust use `return_type`
+    const typeNode =
+      node.childForFieldName("return_type") ??
+      node.childForFieldName("result") ??
+      node.childForFieldName("returns") ??
+      node.childForFieldName("type");
+    if (typeNode) {
+      return this.getNodeText(typeNode, code).replace(/^:\s*/, "");
+    }
+    return language.defaultReturnType;
   }
 
-  private extractVisibility(node: any, code: string): string {
+  private extractVisibility(
+    node: any,
+    code: string,
+    language: LanguageDefinition,
+    name: string
+  ): string {
     for (const child of node.children) {
-      if (child.type === "modifiers") {
+      // Rust: pub, pub(crate), ...
+      if (child.type === "visibility_modifier") return "public";
+
+      // Java `modifiers`, TS `accessibility_modifier`, one C# `modifier` per keyword
+      if (["modifiers", "accessibility_modifier", "modifier"].includes(child.type)) {
         const text = this.getNodeText(child, code);
         if (text.includes("public")) return "public";
         if (text.includes("private")) return "private";
         if (text.includes("protected")) return "protected";
+        if (text.includes("internal")) return "internal";
       }
     }
-    return "package";
+    return language.defaultVisibility(name);
   }
 
-  private calculateComplexity(node: any): number {
-    let complexity = 1;
-    const complexityNodes = ["if_statement", "for_statement", "while_statement", "case", "catch"];
+  /**
+   * Collect the names called inside a function: plain calls (`foo()`), method
+   * calls (`obj.foo()` -> "foo") and constructor calls (`new Foo()` -> "Foo").
+   */
+  private extractCalls(node: any, code: string): string[] {
+    const calls = new Set<string>();
 
     const traverse = (n: any) => {
-      if (complexityNodes.includes(n.type)) {
-        complexity++;
+      let callee: any = null;
+
+      switch (n.type) {
+        case "call_expression": // JavaScript/TypeScript, Go, Rust
+        case "call": // Python
+        case "invocation_expression": // C#
+          callee = n.childForFieldName("function");
+          break;
+        case "method_invocation": // Java
+          callee = n.childForFieldName("name");
+          break;
+        case "new_expression": // JavaScript/TypeScript
+          callee = n.childForFieldName("constructor");
+          break;
+        case "object_creation_expression": // Java, C#
+          callee = n.childForFieldName("type");
+          break;
+      }
+
+      if (callee) {
+        // member_expression / attribute / field_access / member_access_expression /
+        // scoped_identifier: keep the member name
+        const member =
+          callee.childForFieldName("property") ??
+          callee.childForFieldName("attribute") ??
+          callee.childForFieldName("field") ??
+          callee.childForFieldName("name");
+        const name = this.getNodeText(member ?? callee, code)
+          .replace(/<[\s\S]*>$/, "")
+          .split(".")
+          .pop()
+          ?.trim();
+        if (name && /^[A-Za-z_$][\w$]*$/.test(name)) {
+          calls.add(name);
+        }
       }
+
       for (const child of n.children) {
         traverse(child);
       }
     };
 
     traverse(node);
-    return complexity;
+    return [...calls];
   }
 
   private getNodeText(node: any, code: string): string {
@@ -1,6 +1,24 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { ASTParser, FileAnalysis } from "./astParser";
+import * as crypto from "crypto";
+import { ASTParser, DeclarationMetadata, FileAnalysis, FunctionMetadata } from "./astParser";
+import { getLanguageForFile, getSourceGlob } from "./languageRegistry";
+
+export interface SymbolDefinition {
+  filePath: string;
+  /** Set when the symbol is a function or method */
+  func?: FunctionMetadata;
+  /** Set when the symbol is a class */
+  className?: string;
+  /** Set when the symbol is an interface, type alias, enum or exported constant */
+  declaration?: DeclarationMetadata;
+}
+
+export interface FunctionLocation {
+  func: FunctionMetadata;
+  filePath: string;
+  fileName: string;
+}
 
 export interface CodebaseIndex {
   files: Map<string, FileAnalysis>;
@@ -8,12 +26,42 @@ export interface CodebaseIndex {
   totalClasses: number;
 }
 
-export class CodebaseIndexer {
+// Bump whenever the shape of FileAnalysis changes so stale caches are dropped
+const INDEX_VERSION = 5;
+const INDEX_FILE_NAME = "codebase-index.json";
+const EXCLUDE_GLOB = "**/{node_modules,out,dist,build,.git}/**";
+
+interface PersistedIndex {
+  version: number;
+  files: Array<[string, FileAnalysis]>;
+}
+
+/**
+ * Long-lived index of the workspace, owned by the extension. The index is
+ * saved to workspace storage and keyed by a content hash per file, so
+ * unchanged files are skipped on startup. A FileSystemWatcher keeps it
+ * current afterwards.
+ */
+export class CodebaseIndexer implements vscode.Disposable {
   private parser: ASTParser;
   private index: CodebaseIndex;
+  private readonly storageUri?: vscode.Uri;
+  private watcher?: vscode.FileSystemWatcher;
+  // Deleting or renaming a folder reports only the folder, which the source glob does not match
+  private deleteWatcher?: vscode.FileSystemWatcher;
+  private saveTimer?: NodeJS.Timeout;
+  private indexing?: Promise<CodebaseIndex>;
+  private initialized?: Promise<void>;
+  // Callee name -> functions calling it; rebuilt lazily after index changes
+  private callersByName?: Map<string, FunctionLocation[]>;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
 
-  constructor() {
+  /** Fires after files were added to, updated in or removed from the index. */
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(storageUri?: vscode.Uri) {
     this.parser = new ASTParser();
+    this.storageUri = storageUri;
     this.index = {
       files: new Map(),
       totalFunctions: 0,
@@ -21,49 +69,285 @@ export class CodebaseIndexer {
     };
   }
 
-  public async indexWorkspace(): Promise<CodebaseIndex> {
+  /**
+   * Load the saved index, start watching for changes and bring the index up
+   * to date with the workspace, all once; the watcher keeps it current after
+   * that. Later calls just wait for that and any scan in progress, unless
+   * `rescan` asks for a fresh scan of the whole workspace.
+   */
+  public async initialize(rescan = false): Promise<CodebaseIndex> {
+    if (!this.initialized) {
+      this.initialized = this.load()
+        .then(async () => {
+          this.startWatching();
+          await this.indexWorkspace();
+        })
+        .catch((error) => {
+          this.initialized = undefined;
+          throw error;
+        });
+      await this.initialized;
+      return this.index;
+    }
+
+    await this.initialized;
+    if (rescan) {
+      return this.indexWorkspace();
+    }
+    return this.indexing ?? this.index;
+  }
+
+  /**
+   * Index every source file in the workspace, re-parsing only files whose
+   * content hash changed and dropping files that no longer exist.
+   */
+  public indexWorkspace(): Promise<CodebaseIndex> {
+    if (!this.indexing) {
+      this.indexing = this.doIndexWorkspace().finally(() => {
+        this.indexing = undefined;
+      });
+    }
+    return this.indexing;
+  }
+
+  private async doIndexWorkspace(): Promise<CodebaseIndex> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) return this.index;
 
-    const files = await vscode.workspace.findFiles(
-      "**/*.{java,js,ts,py}",
-      "**/node_modules/**"
-    );
+    const files = await vscode.workspace.findFiles(getSourceGlob(), EXCLUDE_GLOB);
+    const present = new Set(files.map((file) => file.fsPath));
+
+    for (const filePath of [...this.index.files.keys()]) {
+      if (!present.has(filePath)) {
+        this.index.files.delete(filePath);
+      }
+    }
 
     for (const file of files) {
       await this.indexFile(file);
     }
 
+    this.recomputeTotals();
+    await this.save();
     return this.index;
   }
 
   private async indexFile(fileUri: vscode.Uri): Promise<void> {
     try {
-      const document = await vscode.workspace.openTextDocument(fileUri);
-      const code = document.getText();
-      const language = document.languageId;
+      const language = getLanguageForFile(fileUri.fsPath);
+      if (!language) return;
+
+      const bytes = await vscode.workspace.fs.readFile(fileUri);
+      const contentHash = crypto.createHash("sha1").update(bytes).digest("hex");
+
+      const existing = this.index.files.get(fileUri.fsPath);
+      if (existing?.contentHash === contentHash) return;
 
-      const analysis = this.parser.parseFile(code, language);
-      if (!analysis) return;
+      const code = Buffer.from(bytes).toString("utf8");
+      const analysis = this.parser.parseFile(code, language.id);
+      if (!analysis) {
+        this.index.files.delete(fileUri.fsPath);
+        return;
+      }
 
       analysis.fileName = path.basename(fileUri.fsPath);
+      analysis.contentHash = contentHash;
       this.index.files.set(fileUri.fsPath, analysis);
-      this.index.totalFunctions += analysis.functions.length;
-      this.index.totalClasses += analysis.classes.length;
     } catch (error) {
       console.error(`Failed to index ${fileUri.fsPath}:`, error);
     }
   }
 
+  private startWatching(): void {
+    if (this.watcher) return;
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(getSourceGlob());
+
+    const update = async (uri: vscode.Uri) => {
+      if (isExcluded(uri)) return;
+      await this.indexFile(uri);
+      this.recomputeTotals();
+      this.scheduleSave();
+    };
+
+    this.watcher.onDidCreate(update);
+    this.watcher.onDidChange(update);
+    this.watcher.onDidDelete((uri) => this.removePath(uri));
+
+    this.deleteWatcher = vscode.workspace.createFileSystemWatcher("**/*", true, true, false);
+    this.deleteWatcher.onDidDelete((uri) => this.removePath(uri));
+  }
+
+  /** Drop a deleted file, or every file under a deleted folder. */
+  private removePath(uri: vscode.Uri): void {
+    if (this.index.files.delete(uri.fsPath)) {
+      this.recomputeTotals();
+      this.scheduleSave();
+      return;
+    }
+    if (isExcluded(uri)) return;
+
+    const folderPrefix = uri.fsPath.endsWith(path.sep) ? uri.fsPath : uri.fsPath + path.sep;
+    let removed = false;
+    for (const filePath of [...this.index.files.keys()]) {
+      if (filePath.startsWith(folderPrefix)) {
+        this.index.files.delete(filePath);
+        removed = true;
+      }
+    }
+    if (removed) {
+      this.recomputeTotals();
+      this.scheduleSave();
+    }
+  }
+
+  private recomputeTotals(): void {
+    this.callersByName = undefined;
+    let totalFunctions = 0;
+    let totalClasses = 0;
+    for (const [, analysis] of this.index.files) {
+      totalFunctions += analysis.functions.length;
+      totalClasses += analysis.classes.length;
+    }
+    this.index.totalFunctions = totalFunctions;
+    this.index.totalClasses = totalClasses;
+    this._onDidChange.fire();
+  }
+
+  private get indexFileUri(): vscode.Uri | undefined {
+    return this.storageUri && vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME);
+  }
+
+  private async load(): Promise<void> {
+    const uri = this.indexFileUri;
+    if (!uri) return;
+
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      const persisted: PersistedIndex = JSON.parse(Buffer.from(bytes).toString("utf8"));
+      if (persisted.version !== INDEX_VERSION) return;
+
+      this.index.files = new Map(persisted.files);
+      this.recomputeTotals();
+    } catch {
+      // No saved index yet (or it is unreadable): start from scratch
+    }
+  }
+
+  /** Debounced save for the bursts of events the watcher produces. */
+  private scheduleSave(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, 2000);
+  }
+
+  private async save(): Promise<void> {
+    const uri = this.indexFileUri;
+    if (!uri || !this.storageUri) return;
+
+    try {
+      const persisted: PersistedIndex = {
+        version: INDEX_VERSION,
+        files: [...this.index.files],
+      };
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(persisted), "utf8"));
+    } catch (error) {
+      console.error("Failed to save codebase index:", error);
+    }
+  }
+
   public getIndex(): CodebaseIndex {
     return this.index;
   }
 
-  public findFunction(functionName: string): FileAnalysis | null {
-    for (const [, analysis] of this.index.files) {
+  /** The first function with this name, with the file it is defined in. */
+  public findFunction(functionName: string): FunctionLocation | null {
+    for (const [filePath, analysis] of this.index.files) {
       const func = analysis.functions.find((f) => f.name === functionName);
-      if (func) return analysis;
+      if (func) return { func, filePath, fileName: analysis.fileName };
     }
     return null;
   }
-}
\ No newline at end of file
+
+  /** Functions anywhere in the workspace that call `functionName`. */
+  public getCallers(functionName: string): FunctionLocation[] {
+    if (!this.callersByName) {
+      this.callersByName = new Map();
+      for (const [filePath, analysis] of this.index.files) {
+        for (const func of analysis.functions) {
+          for (const callee of func.calls ?? []) {
+            const callers = this.callersByName.get(callee) ?? [];
+            callers.push({ func, filePath, fileName: analysis.fileName });
+            this.callersByName.set(callee, callers);
+          }
+        }
+      }
+    }
+    return this.callersByName.get(functionName) ?? [];
+  }
+
+  /**
+   * Functions called by `functionName`, resolved to their definitions. Calls
+   * to names that are not defined in the workspace (library calls) are left
+   * out. Pass `filePath` to pick the right function when the name is defined
+   * in several files.
+   */
+  public getCallees(functionName: string, filePath?: string): FunctionLocation[] {
+    const definitions = this.findDefinitions(functionName).filter(
+      (d) => d.func && (!filePath || d.filePath === filePath)
+    );
+
+    const calls = new Set(definitions.flatMap((d) => d.func!.calls ?? []));
+    const callees: FunctionLocation[] = [];
+    for (const name of calls) {
+      for (const definition of this.findDefinitions(name)) {
+        if (definition.func) {
+          callees.push({
+            func: definition.func,
+            filePath: definition.filePath,
+            fileName: path.basename(definition.filePath),
+          });
+        }
+      }
+    }
+    return callees;
+  }
+
+  /** All functions, classes and other declarations with the given name across the workspace. */
+  public findDefinitions(name: string): SymbolDefinition[] {
+    const definitions: SymbolDefinition[] = [];
+    for (const [filePath, analysis] of this.index.files) {
+      for (const func of analysis.functions) {
+        if (func.name === name) {
+          definitions.push({ filePath, func });
+        }
+      }
+      if (analysis.classes.includes(name)) {
+        definitions.push({ filePath, className: name });
+      }
+      for (const declaration of analysis.declarations) {
+        if (declaration.name === name) {
+          definitions.push({ filePath, declaration });
+        }
+      }
+    }
+    return definitions;
+  }
+
+  public dispose(): void {
+    this.watcher?.dispose();
+    this.deleteWatcher?.dispose();
+    this._onDidChange.dispose();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      void this.save();
+    }
+  }
+}
+
+function isExcluded(uri: vscode.Uri): boolean {
+  return /[\\/](node_modules|out|dist|build|\.git)[\\/]/.test(uri.fsPath);
+}
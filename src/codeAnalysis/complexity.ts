@@ -0,0 +1,227 @@
+import Parser from "tree-sitter";
+import { LanguageDefinition } from "./languageRegistry";
+
+type SyntaxNode = Parser.SyntaxNode;
+
+export interface ComplexityMetrics {
+  /** McCabe: 1 + branches, loops, cases, catches, ternaries and && / || */
+  cyclomatic: number;
+  /** SonarSource cognitive complexity: like cyclomatic, but nesting costs extra */
+  cognitive: number;
+}
+
+// Node types shared by the grammars in the language registry; a type only
+// appears in the grammars that have the construct
+
+const IF_TYPES = new Set(["if_statement", "if_expression", "if_let_expression"]);
+const LOOP_TYPES = new Set([
+  "for_statement", // JS/TS, Java, Python, Go, C#
+  "for_in_statement", // JS/TS for-in and for-of
+  "enhanced_for_statement", // Java for-each
+  "foreach_statement", // C#
+  "while_statement",
+  "do_statement",
+  "for_expression", // Rust
+  "while_expression",
+  "while_let_expression",
+  "loop_expression",
+]);
+// Whole switch-like statements (cognitive counts these once)
+const SWITCH_TYPES = new Set([
+  "switch_statement",
+  "switch_expression",
+  "expression_switch_statement", // Go
+  "type_switch_statement",
+  "select_statement",
+  "match_statement", // Python
+  "match_expression", // Rust
+]);
+// Individual cases (cyclomatic counts each, except default)
+const CASE_TYPES = new Set([
+  "switch_case", // JS/TS
+  "switch_block_statement_group", // Java
+  "switch_rule",
+  "switch_section", // C#
+  "switch_expression_arm",
+  "expression_case", // Go
+  "type_case",
+  "communication_case",
+  "case_clause", // Python
+  "match_arm", // Rust
+]);
+const CATCH_TYPES = new Set(["catch_clause", "except_clause"]);
+const TERNARY_TYPES = new Set(["ternary_expression", "conditional_expression"]);
+const LOGICAL_OPERATORS = new Set(["&&", "||", "and", "or"]);
+// Python comprehension clauses: `[x for x in xs if x]`
+const COMPREHENSION_TYPES = new Set(["for_in_clause", "if_clause"]);
+const JUMP_TYPES = new Set([
+  "break_statement",
+  "continue_statement",
+  "break_expression",
+  "continue_expression",
+]);
+const LABEL_TYPES = new Set(["statement_identifier", "identifier", "label_name", "label", "loop_label"]);
+// Lambdas and closures, on top of the registry's function types
+const LAMBDA_TYPES = new Set([
+  "lambda_expression",
+  "lambda",
+  "func_literal",
+  "closure_expression",
+  "anonymous_method_expression",
+]);
+
+/** Cyclomatic and cognitive complexity of one function node. */
+export function measureComplexity(node: SyntaxNode, language: LanguageDefinition): ComplexityMetrics {
+  const isFunction = (n: SyntaxNode) =>
+    language.nodeTypes.functions.includes(n.type) ||
+    language.nodeTypes.anonymousFunctions.includes(n.type) ||
+    LAMBDA_TYPES.has(n.type);
+
+  return {
+    cyclomatic: cyclomaticComplexity(node, isFunction),
+    cognitive: cognitiveComplexity(node, isFunction),
+  };
+}
+
+/**
+ * One plus every point where the path through the function can split.
+ * Nested functions are left out; they are measured on their own.
+ */
+function cyclomaticComplexity(root: SyntaxNode, isFunction: (n: SyntaxNode) => boolean): number {
+  let complexity = 1;
+
+  const visit = (node: SyntaxNode) => {
+    if (node !== root && isFunction(node)) return;
+
+    if (
+      IF_TYPES.has(node.type) ||
+      node.type === "elif_clause" ||
+      LOOP_TYPES.has(node.type) ||
+      CATCH_TYPES.has(node.type) ||
+      TERNARY_TYPES.has(node.type) ||
+      COMPREHENSION_TYPES.has(node.type) ||
+      (CASE_TYPES.has(node.type) && !isDefaultCase(node)) ||
+      isLogicalOperation(node)
+    ) {
+      complexity++;
+    }
+
+    for (const child of node.children) {
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return complexity;
+}
+
+/**
+ * Cognitive complexity as defined by SonarSource: +1 for each break in the
+ * linear flow (if, else if, else, loops, switch, catch, ternaries, labelled
+ * jumps, each run of like boolean operators), plus the nesting depth for
+ * those that nest. Nested functions count towards the enclosing one and
+ * deepen the nesting.
+ */
+function cognitiveComplexity(root: SyntaxNode, isFunction: (n: SyntaxNode) => boolean): number {
+  let complexity = 0;
+
+  const visitChildren = (node: SyntaxNode, nesting: number) => {
+    for (const child of node.children) {
+      visit(child, nesting);
+    }
+  };
+
+  const visitIf = (node: SyntaxNode, nesting: number, isElseIf: boolean) => {
+    // `else if` costs one but does not add nesting
+    complexity += isElseIf ? 1 : 1 + nesting;
+
+    for (const child of node.children) {
+      if (child.type === "else_clause") {
+        const inner = child.namedChildren.find((n) => !n.type.includes("comment"));
+        if (inner && IF_TYPES.has(inner.type)) {
+          visitIf(inner, nesting, true);
+        } else {
+          complexity++;
+          visitChildren(child, nesting + 1);
+        }
+      } else if (child.type === "elif_clause") {
+        complexity++;
+        visitChildren(child, nesting + 1);
+      } else if (child.previousSibling?.type === "else") {
+        // Java, Go, C#: the alternative follows the `else` keyword directly
+        if (IF_TYPES.has(child.type)) {
+          visitIf(child, nesting, true);
+        } else {
+          complexity++;
+          visit(child, nesting + 1);
+        }
+      } else {
+        visit(child, nesting + 1);
+      }
+    }
+  };
+
+  const visit = (node: SyntaxNode, nesting: number) => {
+    if (node !== root && isFunction(node)) {
+      visitChildren(node, nesting + 1);
+      return;
+    }
+
+    if (IF_TYPES.has(node.type)) {
+      visitIf(node, nesting, false);
+      return;
+    }
+
+    if (
+      LOOP_TYPES.has(node.type) ||
+      SWITCH_TYPES.has(node.type) ||
+      CATCH_TYPES.has(node.type) ||
+      TERNARY_TYPES.has(node.type)
+    ) {
+      complexity += 1 + nesting;
+      visitChildren(node, nesting + 1);
+      return;
+    }
+
+    if (isLogicalOperation(node)) {
+      // A run of the same operator (a && b && c) counts once
+      const parent = node.parent;
+      if (!parent || !isLogicalOperation(parent) || operatorOf(parent) !== operatorOf(node)) {
+        complexity++;
+      }
+    } else if (
+      node.type === "goto_statement" ||
+      (JUMP_TYPES.has(node.type) && node.namedChildren.some((n) => LABEL_TYPES.has(n.type)))
+    ) {
+      complexity++;
+    }
+
+    visitChildren(node, nesting);
+  };
+
+  visit(root, 0);
+  return complexity;
+}
+
+function operatorOf(node: SyntaxNode): string | undefined {
+  return (node.childForFieldName("operator") ?? node.children[1])?.type;
+}
+
+function isLogicalOperation(node: SyntaxNode): boolean {
+  if (node.type !== "binary_expression" && node.type !== "boolean_operator") {
+    return false;
+  }
+  const operator = operatorOf(node);
+  return operator !== undefined && LOGICAL_OPERATORS.has(operator);
+}
+
+/** `default:`, Go's default case and Rust's `_ =>` arm do not add a path. */
+function isDefaultCase(node: SyntaxNode): boolean {
+  if (node.type === "match_arm") {
+    return node.childForFieldName("pattern")?.text.trim() === "_";
+  }
+  if (node.type === "case_clause") {
+    return node.namedChildren.some((n) => n.type === "case_pattern" && n.text.trim() === "_");
+  }
+  return /^\s*default\b/.test(node.text);
+}
@@ -0,0 +1,246 @@
+import * as path from "path";
+import type { DeclarationMetadata } from "./astParser";
+
+/** Which tree-sitter node types mean what in a language's grammar. */
+export interface LanguageNodeTypes {
+  /** Function nodes that carry their own `name` field */
+  functions: string[];
+  /** Function nodes named after the variable, field or key they are assigned to */
+  anonymousFunctions: string[];
+  classes: string[];
+  declarations: Record<string, DeclarationMetadata["kind"]>;
+  imports: string[];
+}
+
+export interface LanguageDefinition {
+  /** VS Code language id */
+  id: string;
+  displayName: string;
+  extensions: string[];
+  /** Loads the tree-sitter grammar; throws when the package is not installed */
+  loadGrammar: () => any;
+  nodeTypes: LanguageNodeTypes;
+  /** Visibility of a function without an explicit modifier */
+  defaultVisibility: (name: string) => string;
+  /** Return type of a function without an annotation */
+  defaultReturnType: string;
+  /** Test file name for a source file, e.g. "math.ts" -> "math.test.ts" */
+  testFileName: (baseName: string) => string;
+}
+
+const JAVASCRIPT_NODE_TYPES: LanguageNodeTypes = {
+  functions: ["function_declaration", "generator_function_declaration", "method_definition"],
+  anonymousFunctions: ["arrow_function", "function_expression", "function", "generator_function"],
+  classes: ["class_declaration"],
+  declarations: {},
+  imports: ["import_statement"],
+};
+
+const TYPESCRIPT_NODE_TYPES: LanguageNodeTypes = {
+  ...JAVASCRIPT_NODE_TYPES,
+  classes: ["class_declaration", "abstract_class_declaration"],
+  declarations: {
+    interface_declaration: "interface",
+    type_alias_declaration: "type",
+    enum_declaration: "enum",
+  },
+};
+
+// #private members are the only implicit visibility in JS/TS
+const jsVisibility = (name: string) => (name.startsWith("#") ? "private" : "public");
+
+// Tests of JSX files need the JSX extension too, or they do not compile
+const javascript = (id: string, extensions: string[], testExtension = ".js"): LanguageDefinition => ({
+  id,
+  displayName: "JavaScript",
+  extensions,
+  loadGrammar: () => require("tree-sitter-javascript"),
+  nodeTypes: JAVASCRIPT_NODE_TYPES,
+  defaultVisibility: jsVisibility,
+  defaultReturnType: "unknown",
+  testFileName: (baseName) => `${baseName}.test${testExtension}`,
+});
+
+/**
+ * Every language the extension can parse. Adding a language means adding an
+ * entry here (and its grammar to package.json); the parser, the indexer and
+ * test generation all read from this list.
+ */
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: "java",
+    displayName: "Java",
+    extensions: [".java"],
+    loadGrammar: () => require("tree-sitter-java"),
+    nodeTypes: {
+      functions: ["method_declaration", "constructor_declaration"],
+      anonymousFunctions: [],
+      classes: ["class_declaration", "record_declaration"],
+      declarations: {
+        interface_declaration: "interface",
+        enum_declaration: "enum",
+      },
+      imports: ["import_declaration"],
+    },
+    defaultVisibility: () => "package",
+    defaultReturnType: "void",
+    testFileName: (baseName) => `${baseName}Test.java`,
+  },
+  javascript("javascript", [".js", ".mjs", ".cjs"]),
+  javascript("javascriptreact", [".jsx"], ".jsx"),
+  {
+    id: "typescript",
+    displayName: "TypeScript",
+    extensions: [".ts", ".mts", ".cts"],
+    loadGrammar: () => require("tree-sitter-typescript").typescript,
+    nodeTypes: TYPESCRIPT_NODE_TYPES,
+    defaultVisibility: jsVisibility,
+    defaultReturnType: "unknown",
+    testFileName: (baseName) => `${baseName}.test.ts`,
+  },
+  {
+    id: "typescriptreact",
+    displayName: "TypeScript React",
+    extensions: [".tsx"],
+    // JSX needs the tsx dialect; the plain grammar reads `<div>` as a type assertion
+    loadGrammar: () => require("tree-sitter-typescript").tsx,
+    nodeTypes: TYPESCRIPT_NODE_TYPES,
+    defaultVisibility: jsVisibility,
+    defaultReturnType: "unknown",
+    testFileName: (baseName) => `${baseName}.test.tsx`,
+  },
+  {
+    id: "python",
+    displayName: "Python",
+    extensions: [".py"],
+    loadGrammar: () => require("tree-sitter-python"),
+    nodeTypes: {
+      functions: ["function_definition"],
+      anonymousFunctions: [],
+      classes: ["class_definition"],
+      declarations: {},
+      imports: ["import_statement", "import_from_statement"],
+    },
+    // _private by convention, but __dunder__ methods are public
+    defaultVisibility: (name) => (/^_(?!_.*__$)/.test(name) ? "private" : "public"),
+    defaultReturnType: "unknown",
+    testFileName: (baseName) => `test_${baseName}.py`,
+  },
+  {
+    id: "go",
+    displayName: "Go",
+    extensions: [".go"],
+    loadGrammar: () => require("tree-sitter-go"),
+    nodeTypes: {
+      functions: ["function_declaration", "method_declaration"],
+      anonymousFunctions: [],
+      classes: [],
+      declarations: {
+        type_spec: "type",
+      },
+      imports: ["import_declaration"],
+    },
+    // Capitalized names are exported
+    defaultVisibility: (name) => (/^[A-Z]/.test(name) ? "public" : "private"),
+    defaultReturnType: "void",
+    testFileName: (baseName) => `${baseName}_test.go`,
+  },
+  {
+    id: "rust",
+    displayName: "Rust",
+    extensions: [".rs"],
+    loadGrammar: () => require("tree-sitter-rust"),
+    nodeTypes: {
+      functions: ["function_item"],
+      anonymousFunctions: [],
+      classes: ["struct_item"],
+      declarations: {
+        trait_item: "interface",
+        type_item: "type",
+        enum_item: "enum",
+        const_item: "constant",
+        static_item: "constant",
+      },
+      imports: ["use_declaration"],
+    },
+    defaultVisibility: () => "private",
+    defaultReturnType: "()",
+    testFileName: (baseName) => `${baseName}_test.rs`,
+  },
+  {
+    id: "csharp",
+    displayName: "C#",
+    extensions: [".cs"],
+    loadGrammar: () => require("tree-sitter-c-sharp"),
+    nodeTypes: {
+      functions: ["method_declaration", "constructor_declaration", "local_function_statement"],
+      anonymousFunctions: [],
+      classes: ["class_declaration", "struct_declaration", "record_declaration"],
+      declarations: {
+        interface_declaration: "interface",
+        enum_declaration: "enum",
+      },
+      imports: ["using_directive"],
+    },
+    defaultVisibility: () => "private",
+    defaultReturnType: "void",
+    testFileName: (baseName) => `${baseName}Tests.cs`,
+  },
+];
+
+/** Parameter node types across all grammars. */
+export const PARAMETER_NODE_TYPES = [
+  // Java
+  "formal_parameter",
+  "spread_parameter",
+  // TypeScript
+  "required_parameter",
+  "optional_parameter",
+  // JavaScript
+  "identifier",
+  "assignment_pattern",
+  "rest_pattern",
+  "object_pattern",
+  "array_pattern",
+  // Python
+  "typed_parameter",
+  "default_parameter",
+  "typed_default_parameter",
+  "list_splat_pattern",
+  "dictionary_splat_pattern",
+  // Go
+  "parameter_declaration",
+  "variadic_parameter_declaration",
+  // Python, Rust and C#
+  "parameter",
+];
+
+export function getLanguage(languageId: string): LanguageDefinition | undefined {
+  return LANGUAGES.find((language) => language.id === languageId);
+}
+
+/** The language of a file, judged by its extension. */
+export function getLanguageForFile(filePath: string): LanguageDefinition | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return LANGUAGES.find((language) => language.extensions.includes(extension));
+}
+
+/** Glob matching every source file of a registered language. */
+export function getSourceGlob(): string {
+  const extensions = LANGUAGES.flatMap((language) =>
+    language.extensions.map((extension) => extension.slice(1))
+  );
+  return `**/*.{${[...new Set(extensions)].join(",")}}`;
+}
+
+/** Path of the test file for `filePath`, next to it and named by the language's convention. */
+export function getTestFileName(filePath: string, languageId: string): string {
+  const extension = path.extname(filePath);
+  const baseName = path.basename(filePath, extension);
+  const language = getLanguage(languageId);
+
+  const testName = language
+    ? language.testFileName(baseName)
+    : `${baseName}.test${extension}`;
+  return path.join(path.dirname(filePath), testName);
+}
@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+import { ASTParser, FunctionMetadata } from "../codeAnalysis/astParser";
+import { getLanguage } from "../codeAnalysis/languageRegistry";
+import { FunctionLocation } from "../codeAnalysis/codebaseIndexer";
+import { ChatViewProvider } from "../ChatViewProvider";
+
+type ChatAction = "explain" | "review" | "simplify";
+
+/** Questions sent to the chat for each CodeLens action. */
+const CHAT_PROMPTS: Record<ChatAction, (func: FunctionMetadata) => string> = {
+  explain: (func) =>
+    `Explain what the function \`${func.name}\` does, step by step: its inputs, its result, side effects and anything surprising.`,
+  review: (func) =>
+    `Review the function \`${func.name}\` for bugs, unhandled edge cases, performance and readability problems. Point at the exact lines and suggest concrete fixes.`,
+  simplify: (func) =>
+    `Simplify the function \`${func.name}\` (cognitive complexity ${func.cognitiveComplexity}, cyclomatic complexity ${func.complexity}) without changing its behaviour: flatten nesting with early returns, split out well-named helpers and remove duplicated conditions. Show the complete rewritten code.`,
+};
+
+export function isCodeLensEnabled(document: vscode.TextDocument): boolean {
+  // Language-overridable, so e.g. "[python]": { "aiDevAssistant.codeLens.enabled": false } works
+  return vscode.workspace
+    .getConfiguration("aiDevAssistant", document)
+    .get<boolean>("codeLens.enabled", true);
+}
+
+/**
+ * Shows "Explain · Generate Test · Review · Document" above every function
+ * the ASTParser finds. Chat actions move the cursor into the function and ask
+ * in the chat panel, so the usual function context goes with the question;
+ * Generate Test and Document run their commands for that function.
+ */
+export class FunctionActionsProvider implements vscode.CodeLensProvider {
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(
+    private readonly parser: ASTParser,
+    private readonly chat: ChatViewProvider
+  ) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ scheme: "file" }, this),
+      vscode.languages.registerCodeLensProvider({ scheme: "untitled" }, this),
+      vscode.commands.registerCommand(
+        "aiDevAssistant.askAboutFunction",
+        (action: ChatAction, uri: vscode.Uri, line: number) => this.askAboutFunction(action, uri, line)
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.toggleCodeLens", () => this.toggleForLanguage()),
+      // From the hotspot view and the complexity quick fix; the palette uses the cursor
+      vscode.commands.registerCommand("aiDevAssistant.simplifyFunction", (location?: FunctionLocation) =>
+        this.simplify(location)
+      ),
+      this._onDidChangeCodeLenses,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("aiDevAssistant.codeLens")) {
+          this._onDidChangeCodeLenses.fire();
+        }
+      })
+    );
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!getLanguage(document.languageId) || !isCodeLensEnabled(document)) {
+      return [];
+    }
+
+    const analysis = this.parser.parseFile(document.getText(), document.languageId);
+    if (!analysis) {
+      return [];
+    }
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const func of analysis.functions) {
+      const line = func.lineStart - 1;
+      const range = new vscode.Range(line, 0, line, 0);
+      const chatLens = (title: string, action: ChatAction) =>
+        new vscode.CodeLens(range, {
+          title,
+          command: "aiDevAssistant.askAboutFunction",
+          arguments: [action, document.uri, line],
+        });
+
+      lenses.push(
+        chatLens("Explain", "explain"),
+        new vscode.CodeLens(range, {
+          title: "Generate Test",
+          command: "aiDevAssistant.generateTest",
+          arguments: [document.uri, line],
+        }),
+        chatLens("Review", "review"),
+        new vscode.CodeLens(range, {
+          title: "Document",
+          command: "aiDevAssistant.documentFunction",
+          arguments: [document.uri, line],
+        })
+      );
+    }
+    return lenses;
+  }
+
+  private async askAboutFunction(action: ChatAction, uri: vscode.Uri, line: number): Promise<void> {
+    const editor = await revealFunction(uri, line);
+    const analysis = this.parser.parseFile(editor.document.getText(), editor.document.languageId);
+    const func = analysis?.functions.find((f) => f.lineStart === line + 1);
+    if (!analysis || !func) {
+      vscode.window.showWarningMessage("The function has moved; try again.");
+      return;
+    }
+
+    await this.chat.askInChat(CHAT_PROMPTS[action](func));
+  }
+
+  private async simplify(location?: FunctionLocation): Promise<void> {
+    if (location) {
+      await this.askAboutFunction("simplify", vscode.Uri.file(location.filePath), location.func.lineStart - 1);
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const analysis = editor && this.parser.parseFile(editor.document.getText(), editor.document.languageId);
+    const line = editor ? editor.selection.active.line + 1 : 0;
+    const func = analysis?.functions
+      .filter((f) => line >= f.lineStart && line <= f.lineEnd)
+      .pop();
+    if (!editor || !func) {
+      vscode.window.showWarningMessage("Place cursor inside a function to simplify it");
+      return;
+    }
+    await this.askAboutFunction("simplify", editor.document.uri, func.lineStart - 1);
+  }
+
+  /** Turn the lenses on or off for the active editor's language only. */
+  private async toggleForLanguage(): Promise<void> {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) {
+      vscode.window.showErrorMessage("No active editor");
+      return;
+    }
+
+    const enabled = !isCodeLensEnabled(document);
+    await vscode.workspace
+      .getConfiguration("aiDevAssistant", document)
+      .update("codeLens.enabled", enabled, vscode.ConfigurationTarget.Global, true);
+    vscode.window.showInformationMessage(
+      `AI Dev Assistant CodeLens ${enabled ? "enabled" : "disabled"} for ${document.languageId}`
+    );
+  }
+}
+
+/**
+ * Show `uri` with the cursor on `line` (0-based), so commands that work on
+ * "the function at the cursor" act on that function.
+ */
+export async function revealFunction(uri: vscode.Uri, line: number): Promise<vscode.TextEditor> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const editor = await vscode.window.showTextDocument(document, { preserveFocus: false });
+  const position = new vscode.Position(line, document.lineAt(line).firstNonWhitespaceCharacterIndex);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(new vscode.Range(position, position));
+  return editor;
+}
@@ -0,0 +1,323 @@
+import * as vscode from "vscode";
+import { ChildProcess, spawn } from "child_process";
+
+export interface CommandResult {
+  command: string;
+  /** Null when the command did not exit by itself (see the fields below) */
+  exitCode: number | null;
+  /** Signal that killed the command from outside, e.g. SIGKILL after running out of memory */
+  signal?: string;
+  /** Why the command could not be started at all */
+  spawnError?: string;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  /** Killed through the abort signal */
+  stopped: boolean;
+}
+
+// Output beyond this is cut off so a chatty command cannot flood the chat
+const MAX_OUTPUT_CHARS = 20000;
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel("AI Dev Assistant: Commands");
+  }
+  return outputChannel;
+}
+
+function getCommandConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    allowList: config.get<string[]>("commands.allowList") ?? [],
+    denyList: config.get<string[]>("commands.denyList") ?? [],
+    timeoutSeconds: config.get<number>("commands.timeoutSeconds") ?? 120,
+  };
+}
+
+/**
+ * A pattern is either a regular expression written as `/.../` or a whole
+ * command in which `*` matches anything (e.g. `npm run *`, `git status`).
+ */
+function matchesPattern(command: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    return false;
+  }
+
+  if (trimmed.length > 2 && trimmed.startsWith("/") && trimmed.endsWith("/")) {
+    try {
+      return new RegExp(trimmed.slice(1, -1)).test(command);
+    } catch {
+      return false;
+    }
+  }
+
+  const escaped = trimmed
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`).test(command);
+}
+
+// Quoted strings and escapes are matched so they are skipped whole; only the
+// captured group is an operator
+const OPERATOR_OR_QUOTED = /'[^']*'|"(?:\\.|[^"\\])*"|\\.|(\r?\n|&&|\|\||;|\||(?<![<>])&(?!>))/g;
+
+/**
+ * Split a shell line into the individual commands chained with ;, &, &&, ||
+ * or |. The & of redirections like `2>&1` and `&>` does not split, nor do
+ * operators inside quotes or escaped with a backslash, and harmless stream
+ * merges like `2>&1` are dropped before matching.
+ */
+function splitCommands(command: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (const match of command.matchAll(OPERATOR_OR_QUOTED)) {
+    if (match[1] !== undefined) {
+      parts.push(command.slice(start, match.index));
+      start = match.index! + match[0].length;
+    }
+  }
+  parts.push(command.slice(start));
+
+  return parts
+    .map((part) =>
+      part
+        .replace(/\s*\d*>&\d+/g, "")
+        .trim()
+        .replace(/\s+/g, " ")
+    )
+    .filter(Boolean);
+}
+
+// $(...), `...`, <(...) and >(...) run commands the lists cannot see
+const SUBSTITUTION = /\$\(|`|[<>]\(/;
+
+/**
+ * Check a command against the configured deny and allow lists. Every chained
+ * sub-command is checked, so `npm test && rm -rf ~` cannot sneak past an
+ * allow entry for `npm test`.
+ */
+export function checkCommandPolicy(command: string): { allowed: boolean; reason?: string } {
+  const { allowList, denyList } = getCommandConfig();
+  const parts = splitCommands(command);
+
+  // The whole line is checked too, so patterns like `curl ... | sh` still match
+  for (const part of [command, ...parts]) {
+    const denied = denyList.find((pattern) => matchesPattern(part, pattern));
+    if (denied) {
+      return { allowed: false, reason: `"${part}" matches the deny list entry "${denied}"` };
+    }
+  }
+
+  if (allowList.length > 0) {
+    if (SUBSTITUTION.test(command)) {
+      return { allowed: false, reason: "command substitution is not allowed with an allow list" };
+    }
+    const notAllowed = parts.find(
+      (part) => !allowList.some((pattern) => matchesPattern(part, pattern))
+    );
+    if (notAllowed) {
+      return { allowed: false, reason: `"${notAllowed}" is not on the allow list` };
+    }
+  }
+
+  return { allowed: true };
+}
+
+export interface ApprovalOptions {
+  prompt?: string;
+  /** Shown below the command, e.g. what changed since the last run */
+  detail?: string;
+}
+
+/**
+ * Run a command suggested by the assistant: refuses in untrusted workspaces
+ * and for commands blocked by policy, asks for confirmation showing the exact
+ * command, then runs it in the first workspace folder and captures its output.
+ *
+ * Returns `undefined` when the command was refused or the user declined.
+ */
+export async function runCommandWithApproval(
+  command: string,
+  isTrusted: boolean,
+  options: ApprovalOptions & { cwd?: string; signal?: AbortSignal } = {}
+): Promise<CommandResult | undefined> {
+  if (!(await approveCommand(command, isTrusted, options))) {
+    return undefined;
+  }
+  return executeCommand(command, options.cwd, options.signal);
+}
+
+/**
+ * The checks of runCommandWithApproval without running anything, for callers
+ * that have more to do between the approval and the run.
+ */
+export async function approveCommand(
+  command: string,
+  isTrusted: boolean,
+  options: ApprovalOptions = {}
+): Promise<boolean> {
+  if (!isTrusted || !vscode.workspace.isTrusted) {
+    vscode.window.showWarningMessage(
+      "AI Dev Assistant: Running commands is disabled in untrusted workspaces."
+    );
+    return false;
+  }
+
+  const policy = checkCommandPolicy(command);
+  if (!policy.allowed) {
+    vscode.window.showWarningMessage(`AI Dev Assistant: Command blocked. ${policy.reason}.`);
+    return false;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    options.prompt ?? "Run this command suggested by the AI?",
+    { modal: true, detail: options.detail ? `${command}\n\n${options.detail}` : command },
+    "Run"
+  );
+  return choice === "Run";
+}
+
+/**
+ * Run a command without any checks. Callers are responsible for approval.
+ * Aborting `signal` kills the command.
+ */
+export function executeCommand(
+  command: string,
+  cwd?: string,
+  signal?: AbortSignal
+): Promise<CommandResult> {
+  const { timeoutSeconds } = getCommandConfig();
+  const workingDir = cwd ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const channel = getOutputChannel();
+
+  channel.appendLine(`$ ${command}`);
+
+  return new Promise((resolve) => {
+    let stdout = "";
+    let stderr = "";
+    let settled = false;
+
+    const finish = (
+      outcome: Partial<Pick<CommandResult, "exitCode" | "signal" | "spawnError" | "timedOut" | "stopped">>
+    ) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", stop);
+      resolve({
+        command,
+        exitCode: null,
+        stdout,
+        stderr,
+        timedOut: false,
+        stopped: false,
+        ...outcome,
+      });
+    };
+
+    // Its own process group, so the whole tree under the shell can be killed
+    const child = spawn(command, {
+      cwd: workingDir,
+      shell: true,
+      env: process.env,
+      detached: process.platform !== "win32",
+    });
+
+    // A killed command's children may keep its output open, so "close" can
+    // come much later or never: give up on it right away
+    const timer = setTimeout(() => {
+      killProcessTree(child);
+      channel.appendLine(`[timed out after ${timeoutSeconds}s]`);
+      finish({ timedOut: true });
+    }, timeoutSeconds * 1000);
+
+    const stop = () => {
+      killProcessTree(child);
+      channel.appendLine("[stopped]");
+      finish({ stopped: true });
+    };
+    if (signal?.aborted) {
+      stop();
+    } else {
+      signal?.addEventListener("abort", stop);
+    }
+
+    child.stdout.on("data", (data: Buffer) => {
+      const text = data.toString();
+      channel.append(text);
+      stdout = appendCapped(stdout, text);
+    });
+
+    child.stderr.on("data", (data: Buffer) => {
+      const text = data.toString();
+      channel.append(text);
+      stderr = appendCapped(stderr, text);
+    });
+
+    child.on("error", (error) => {
+      if (settled) return;
+      stderr = appendCapped(stderr, error.message);
+      channel.appendLine(`[failed to start: ${error.message}]`);
+      finish({ spawnError: error.message });
+    });
+
+    child.on("close", (code, killedBy) => {
+      if (settled) return;
+      channel.appendLine(code === null ? `[killed by ${killedBy}]` : `[exit code ${code}]`);
+      finish({ exitCode: code, signal: killedBy ?? undefined });
+    });
+  });
+}
+
+/** Kill the shell and everything it started, not just the shell. */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"]);
+    } else {
+      process.kill(-child.pid, "SIGKILL");
+    }
+  } catch {
+    // Already exited
+    child.kill();
+  }
+}
+
+function appendCapped(current: string, text: string): string {
+  if (current.length >= MAX_OUTPUT_CHARS) {
+    return current;
+  }
+  const combined = current + text;
+  return combined.length > MAX_OUTPUT_CHARS
+    ? `${combined.slice(0, MAX_OUTPUT_CHARS)}\n... (output truncated)`
+    : combined;
+}
+
+/** How a command ended, e.g. "exit code 1", "timed out" or "killed by SIGKILL". */
+export function describeOutcome(result: CommandResult): string {
+  if (result.timedOut) return "timed out";
+  if (result.stopped) return "stopped";
+  if (result.spawnError !== undefined) return "failed to start";
+  if (result.exitCode === null) return `killed by ${result.signal ?? "a signal"}`;
+  return `exit code ${result.exitCode}`;
+}
+
+/** Render a command result as markdown for the chat and the conversation history. */
+export function formatCommandResult(result: CommandResult): string {
+  let text = `Ran \`${result.command}\` (${describeOutcome(result)})\n`;
+  if (result.stdout.trim()) {
+    text += `\nstdout:\n\`\`\`\n${result.stdout.trim()}\n\`\`\`\n`;
+  }
+  if (result.stderr.trim()) {
+    text += `\nstderr:\n\`\`\`\n${result.stderr.trim()}\n\`\`\`\n`;
+  }
+  return text;
+}
@@ -0,0 +1,110 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { CodebaseIndexer, FunctionLocation } from "../codeAnalysis/codebaseIndexer";
+import { exceedsThresholds, getComplexityConfig } from "./hotspots";
+
+const DIAGNOSTIC_SOURCE = "AI Dev Assistant";
+const DIAGNOSTIC_CODE = "complexity";
+
+/**
+ * Optional Problems-panel warnings for functions over the complexity
+ * thresholds, computed from the CodebaseIndex (so they cover closed files
+ * too), with an "Ask AI to simplify" quick fix.
+ */
+export class ComplexityDiagnostics implements vscode.CodeActionProvider {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection("aiDevAssistant.complexity");
+
+  constructor(private readonly indexer: CodebaseIndexer) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this.diagnostics,
+      vscode.languages.registerCodeActionsProvider({ scheme: "file" }, this, {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+      }),
+      this.indexer.onDidChange(() => this.refresh()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("aiDevAssistant.complexity")) {
+          this.refresh();
+        }
+      })
+    );
+    this.refresh();
+  }
+
+  public refresh(): void {
+    this.diagnostics.clear();
+    const { showDiagnostics, cognitiveThreshold, cyclomaticThreshold } = getComplexityConfig();
+    if (!showDiagnostics) {
+      return;
+    }
+
+    for (const [filePath, analysis] of this.indexer.getIndex().files) {
+      const uri = vscode.Uri.file(filePath);
+      const document = vscode.workspace.textDocuments.find((d) => d.uri.fsPath === filePath);
+      const fileDiagnostics: vscode.Diagnostic[] = [];
+
+      for (const func of analysis.functions) {
+        if (!exceedsThresholds(func)) continue;
+
+        const line = func.lineStart - 1;
+        // The index has no columns; underline the whole line when the text is at hand
+        const range =
+          document && line < document.lineCount
+            ? document.lineAt(line).range
+            : new vscode.Range(line, 0, line, 0);
+
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          `'${func.name}' is too complex: cognitive complexity ${func.cognitiveComplexity} ` +
+            `(limit ${cognitiveThreshold}), cyclomatic complexity ${func.complexity} (limit ${cyclomaticThreshold}).`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = DIAGNOSTIC_CODE;
+        fileDiagnostics.push(diagnostic);
+      }
+
+      if (fileDiagnostics.length > 0) {
+        this.diagnostics.set(uri, fileDiagnostics);
+      }
+    }
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const analysis = this.indexer.getIndex().files.get(document.uri.fsPath);
+    if (!analysis) {
+      return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE || diagnostic.code !== DIAGNOSTIC_CODE) continue;
+
+      const func = analysis.functions.find((f) => f.lineStart - 1 === diagnostic.range.start.line);
+      if (!func) continue;
+
+      const location: FunctionLocation = {
+        func,
+        filePath: document.uri.fsPath,
+        fileName: path.basename(document.uri.fsPath),
+      };
+      const action = new vscode.CodeAction(
+        `Ask AI to simplify '${func.name}'`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = [diagnostic];
+      action.command = {
+        title: action.title,
+        command: "aiDevAssistant.simplifyFunction",
+        arguments: [location],
+      };
+      actions.push(action);
+    }
+    return actions;
+  }
+}
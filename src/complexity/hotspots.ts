@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { CodebaseIndex, CodebaseIndexer, FunctionLocation } from "../codeAnalysis/codebaseIndexer";
+import { FunctionMetadata } from "../codeAnalysis/astParser";
+
+export function getComplexityConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    cognitiveThreshold: config.get<number>("complexity.cognitiveThreshold") ?? 15,
+    cyclomaticThreshold: config.get<number>("complexity.cyclomaticThreshold") ?? 10,
+    showDiagnostics: config.get<boolean>("complexity.showDiagnostics") ?? false,
+    hotspotCount: config.get<number>("complexity.hotspotCount") ?? 25,
+  };
+}
+
+/** Whether a function is over either configured threshold. */
+export function exceedsThresholds(func: FunctionMetadata): boolean {
+  const { cognitiveThreshold, cyclomaticThreshold } = getComplexityConfig();
+  return func.cognitiveComplexity > cognitiveThreshold || func.complexity > cyclomaticThreshold;
+}
+
+/** The `limit` most complex functions in the index, by cognitive then cyclomatic complexity. */
+export function findHotspots(index: CodebaseIndex, limit: number): FunctionLocation[] {
+  const all: FunctionLocation[] = [];
+  for (const [filePath, analysis] of index.files) {
+    for (const func of analysis.functions) {
+      all.push({ func, filePath, fileName: path.basename(filePath) });
+    }
+  }
+
+  return all
+    .filter(({ func }) => func.cognitiveComplexity > 0 || func.complexity > 1)
+    .sort(
+      (a, b) =>
+        b.func.cognitiveComplexity - a.func.cognitiveComplexity ||
+        b.func.complexity - a.func.complexity
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Tree view of the workspace's most complex functions, read from the
+ * CodebaseIndex and refreshed whenever the index changes. Each entry opens the
+ * function; its inline action asks the AI to simplify it.
+ */
+export class HotspotsTreeProvider implements vscode.TreeDataProvider<FunctionLocation> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly indexer: CodebaseIndexer) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.window.registerTreeDataProvider("aiDevAssistant.hotspots", this),
+      vscode.commands.registerCommand("aiDevAssistant.refreshHotspots", () =>
+        this.indexer.indexWorkspace()
+      ),
+      this._onDidChangeTreeData,
+      this.indexer.onDidChange(() => this._onDidChangeTreeData.fire()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("aiDevAssistant.complexity")) {
+          this._onDidChangeTreeData.fire();
+        }
+      })
+    );
+  }
+
+  public getChildren(element?: FunctionLocation): FunctionLocation[] {
+    if (element) {
+      return [];
+    }
+    return findHotspots(this.indexer.getIndex(), getComplexityConfig().hotspotCount);
+  }
+
+  public getTreeItem(location: FunctionLocation): vscode.TreeItem {
+    const { func, filePath } = location;
+    const relativePath = vscode.workspace.asRelativePath(filePath);
+    const line = func.lineStart - 1;
+
+    const item = new vscode.TreeItem(func.name, vscode.TreeItemCollapsibleState.None);
+    item.description = `cognitive ${func.cognitiveComplexity} · cyclomatic ${func.complexity} — ${location.fileName}:${func.lineStart}`;
+    item.tooltip = new vscode.MarkdownString(
+      `\`${func.signature}\`\n\n${relativePath}:${func.lineStart}\n\n` +
+        `Cognitive complexity: **${func.cognitiveComplexity}**  \nCyclomatic complexity: **${func.complexity}**`
+    );
+    item.iconPath = exceedsThresholds(func)
+      ? new vscode.ThemeIcon("flame", new vscode.ThemeColor("problemsWarningIcon.foreground"))
+      : new vscode.ThemeIcon("symbol-method");
+    item.contextValue = "hotspot";
+    item.command = {
+      title: "Open Function",
+      command: "vscode.open",
+      arguments: [vscode.Uri.file(filePath), { selection: new vscode.Range(line, 0, line, 0) }],
+    };
+    return item;
+  }
+}
@@ -0,0 +1,222 @@
+import * as vscode from "vscode";
+
+/** One candidate piece of context for a prompt. */
+export interface ContextSnippet {
+  /** Shown in the chat panel, e.g. "Current function: add" */
+  label: string;
+  /** Heading shared by consecutive snippets, printed once */
+  section?: string;
+  /** Line printed above the content, e.g. the file path */
+  title?: string;
+  content: string;
+  /** Wrap the content in a code fence with this language */
+  fence?: string;
+  /** Higher goes in first when the budget is tight */
+  priority: number;
+  /**
+   * How the snippet may be shortened when it does not fit: "code" cuts lines
+   * out of the middle (or around `focusLine`), "list" drops trailing lines.
+   * Snippets without it are included whole or not at all.
+   */
+  truncate?: "code" | "list";
+  /** 0-based line of `content` to keep when truncating code */
+  focusLine?: number;
+}
+
+export interface IncludedSnippet {
+  label: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface BuiltContext {
+  text: string;
+  included: IncludedSnippet[];
+  /** Labels of snippets that did not fit at all */
+  omitted: string[];
+  tokens: number;
+  budget: number;
+}
+
+// Shortening a snippet below this is pointless; it is left out instead
+const MIN_TRUNCATED_TOKENS = 60;
+// Share of the remaining budget a shortened snippet may take
+const TRUNCATED_SHARE = 0.6;
+
+/**
+ * Rough token count. Code averages about four characters per token for the
+ * common tokenizers, which is close enough for budgeting.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getContextBudget(): number {
+  return vscode.workspace.getConfiguration("aiDevAssistant").get<number>("context.maxTokens", 6000);
+}
+
+/**
+ * Fill a token budget with the highest-priority snippets, shortening the ones
+ * that allow it rather than dropping them. The result keeps the order the
+ * snippets were given in, so callers control the layout of the prompt.
+ */
+export function buildContext(snippets: ContextSnippet[], budget = getContextBudget()): BuiltContext {
+  const chosen = new Map<number, { snippet: ContextSnippet; truncated: boolean }>();
+  const countedSections = new Set<string>();
+  const omitted: string[] = [];
+  let used = 0;
+
+  const byPriority = snippets
+    .map((snippet, index) => ({ snippet, index }))
+    .sort((a, b) => b.snippet.priority - a.snippet.priority || a.index - b.index);
+
+  for (const { snippet, index } of byPriority) {
+    const sectionCost =
+      snippet.section && !countedSections.has(snippet.section)
+        ? estimateTokens(`${snippet.section}:\n\n`)
+        : 0;
+    const remaining = budget - used - sectionCost;
+    const cost = estimateTokens(render(snippet));
+
+    let fitted: ContextSnippet | undefined;
+    if (cost <= remaining) {
+      fitted = snippet;
+    } else if (snippet.truncate && remaining >= MIN_TRUNCATED_TOKENS) {
+      // A shortened snippet gets part of what is left, so one long file
+      // cannot crowd out everything ranked below it
+      fitted = shorten(
+        snippet,
+        Math.max(MIN_TRUNCATED_TOKENS, Math.floor(remaining * TRUNCATED_SHARE))
+      );
+    }
+
+    if (!fitted) {
+      omitted.push(snippet.label);
+      continue;
+    }
+
+    chosen.set(index, { snippet: fitted, truncated: fitted !== snippet });
+    used += sectionCost + estimateTokens(render(fitted));
+    if (snippet.section) countedSections.add(snippet.section);
+  }
+
+  let text = "";
+  let currentSection: string | undefined;
+  const included: IncludedSnippet[] = [];
+
+  snippets.forEach((original, index) => {
+    const entry = chosen.get(index);
+    if (!entry) return;
+
+    if (entry.snippet.section !== currentSection) {
+      if (currentSection) text += "\n";
+      currentSection = entry.snippet.section;
+      if (currentSection) text += `${currentSection}:\n`;
+    }
+
+    const rendered = render(entry.snippet);
+    text += rendered;
+    if (!currentSection) text += "\n";
+    included.push({
+      label: original.label,
+      tokens: estimateTokens(rendered),
+      truncated: entry.truncated,
+    });
+  });
+  if (currentSection) text += "\n";
+
+  return { text, included, omitted, tokens: estimateTokens(text), budget };
+}
+
+function render(snippet: ContextSnippet): string {
+  const title = snippet.title ? `${snippet.title}\n` : "";
+  const body =
+    snippet.fence !== undefined
+      ? `\`\`\`${snippet.fence}\n${snippet.content}\n\`\`\``
+      : snippet.content;
+  return `${title}${body}\n`;
+}
+
+/** The snippet cut down to roughly `maxTokens`, or undefined if that is not possible. */
+function shorten(snippet: ContextSnippet, maxTokens: number): ContextSnippet | undefined {
+  const overhead = estimateTokens(render({ ...snippet, content: "" }));
+  const maxChars = (maxTokens - overhead) * 4;
+  if (maxChars <= 0) {
+    return undefined;
+  }
+
+  const lines = snippet.content.split("\n");
+  const content =
+    snippet.truncate === "list"
+      ? truncateList(lines, maxChars)
+      : truncateCode(lines, maxChars, snippet.focusLine);
+  return content ? { ...snippet, content } : undefined;
+}
+
+/** Keep leading lines of a list and note how many were dropped. */
+function truncateList(lines: string[], maxChars: number): string | undefined {
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of lines) {
+    // Leave room for the "... more" line
+    if (length + line.length + 1 > maxChars - 20) break;
+    kept.push(line);
+    length += line.length + 1;
+  }
+  if (kept.length === 0) {
+    return undefined;
+  }
+  return [...kept, `... (${lines.length - kept.length} more)`].join("\n");
+}
+
+/**
+ * Keep the lines around `focusLine`, or else the start and the end of the
+ * code, and mark what was cut. The start of a function (its signature) and
+ * its end (the return) usually say the most.
+ */
+function truncateCode(lines: string[], maxChars: number, focusLine?: number): string | undefined {
+  const budget = maxChars - 60; // room for the omission markers
+  const keep = new Set<number>();
+  let length = 0;
+  const take = (i: number): boolean => {
+    if (i < 0 || i >= lines.length || keep.has(i)) return true;
+    if (length + lines[i].length + 1 > budget) return false;
+    keep.add(i);
+    length += lines[i].length + 1;
+    return true;
+  };
+
+  if (focusLine !== undefined) {
+    // Grow a window around the focus line, one line on each side at a time
+    const focus = Math.min(Math.max(focusLine, 0), lines.length - 1);
+    for (let offset = 0; offset < lines.length; offset++) {
+      if (!take(focus - offset) || !take(focus + offset)) break;
+    }
+  } else {
+    // Two thirds from the top, one third from the bottom
+    let head = 0;
+    let tail = lines.length - 1;
+    while (head <= tail) {
+      if (!take(head++)) break;
+      if (head % 2 === 0 && head <= tail && !take(tail--)) break;
+    }
+  }
+
+  if (keep.size === 0) {
+    return undefined;
+  }
+
+  const result: string[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (keep.has(i)) {
+      if (skipped > 0) result.push(`... (${skipped} lines omitted)`);
+      skipped = 0;
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) result.push(`... (${skipped} lines omitted)`);
+  return result.join("\n");
+}
@@ -0,0 +1,199 @@
+import * as vscode from "vscode";
+import { CodebaseIndexer } from "../codeAnalysis/codebaseIndexer";
+import { isExcludedFromAI } from "../privacy/excludedFiles";
+
+export interface DependencySnippet {
+  name: string;
+  kind: "function" | "class" | "interface" | "type" | "enum" | "constant";
+  filePath: string;
+  relativePath: string;
+  signature: string;
+  /** Source of the definition (not for classes), possibly shortened */
+  code?: string;
+  /** Why it was picked, e.g. "called" or "imported" */
+  reason: string;
+  score: number;
+}
+
+// Longer definitions are cut to their first lines; the signature matters most
+const MAX_SNIPPET_LINES = 40;
+
+const KEYWORDS = new Set([
+  "if", "for", "while", "switch", "catch", "return", "function", "typeof",
+  "new", "super", "this", "await", "async", "yield", "print", "elif", "with",
+  "assert", "lambda", "not", "and", "or", "in", "of", "delete", "void",
+  "instanceof", "sizeof", "constructor", "require", "import",
+]);
+
+/**
+ * Finds the definitions in other workspace files that a piece of code
+ * depends on: functions it calls, classes it instantiates or references, and
+ * names it imports. Uses the shared CodebaseIndex for the lookup.
+ */
+export class ContextRetriever {
+  constructor(private readonly indexer: CodebaseIndexer) {}
+
+  /**
+   * `calls` are the callee names from the AST when available; otherwise they
+   * are guessed from the code.
+   */
+  public async findDependencies(
+    code: string,
+    imports: string[],
+    currentFilePath: string,
+    calls?: string[],
+    limit = 5
+  ): Promise<DependencySnippet[]> {
+    const called = calls ? new Set(calls) : extractCalledNames(code);
+    const referenced = extractTypeReferences(code);
+    const imported = extractImportedNames(imports);
+
+    const candidates = new Map<string, { score: number; reasons: string[] }>();
+    const bump = (name: string, score: number, reason: string) => {
+      if (KEYWORDS.has(name)) return;
+      const entry = candidates.get(name) ?? { score: 0, reasons: [] };
+      entry.score += score;
+      entry.reasons.push(reason);
+      candidates.set(name, entry);
+    };
+
+    called.forEach((name) => bump(name, 2, "called"));
+    referenced.forEach((name) => bump(name, 1, "referenced"));
+    for (const [name] of imported) {
+      // Imports only matter when the code under the cursor uses them
+      if (called.has(name) || referenced.has(name)) {
+        bump(name, 1, "imported");
+      }
+    }
+
+    const snippets: DependencySnippet[] = [];
+    const fileCache = new Map<string, string[]>();
+
+    for (const [name, { score, reasons }] of candidates) {
+      const modulePath = imported.get(name);
+
+      // Very common names (e.g. "get") are defined all over the place; a few
+      // definitions are enough
+      const definitions = this.indexer.findDefinitions(name).slice(0, 3);
+      for (const definition of definitions) {
+        if (definition.filePath === currentFilePath || isExcludedFromAI(definition.filePath)) continue;
+
+        // Definitions in the module the name is imported from rank highest
+        const fromImportedModule =
+          modulePath !== undefined && moduleMatchesFile(modulePath, definition.filePath);
+        const snippet: DependencySnippet = {
+          name,
+          kind: definition.func ? "function" : definition.declaration?.kind ?? "class",
+          filePath: definition.filePath,
+          relativePath: vscode.workspace.asRelativePath(definition.filePath),
+          signature:
+            definition.func?.signature ??
+            (definition.declaration ? `${definition.declaration.kind} ${name}` : `class ${name}`),
+          reason: reasons.join(", "),
+          score: score + (fromImportedModule ? 2 : 0),
+        };
+
+        const range = definition.func ?? definition.declaration;
+        if (range) {
+          const lines = await readLines(definition.filePath, fileCache);
+          const body = lines.slice(range.lineStart - 1, range.lineEnd);
+          snippet.code =
+            body.length > MAX_SNIPPET_LINES
+              ? [...body.slice(0, MAX_SNIPPET_LINES), "  // ... (truncated)"].join("\n")
+              : body.join("\n");
+        }
+
+        snippets.push(snippet);
+      }
+    }
+
+    return snippets
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+}
+
+function extractCalledNames(code: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of code.matchAll(/\b([A-Za-z_$][\w$]*)\s*(?:<[^<>()]*>)?\s*\(/g)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+/** Capitalized identifiers, which in all supported languages are mostly types. */
+function extractTypeReferences(code: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of code.matchAll(/\b([A-Z][A-Za-z0-9_]*)\b/g)) {
+    if (match[1].length > 1 && match[1] !== match[1].toUpperCase()) {
+      names.add(match[1]);
+    }
+  }
+  return names;
+}
+
+/** Imported name -> module specifier, for JS/TS, Python and Java imports. */
+function extractImportedNames(imports: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+
+  for (const statement of imports) {
+    // import { a, b as c } from "./x";  import X, { y } from "./x";  import * as ns from "./x"
+    const esModule = statement.match(/^import\s+(.+?)\s+from\s+["']([^"']+)["']/s);
+    if (esModule) {
+      const [, clause, source] = esModule;
+      const braces = clause.match(/\{([^}]*)\}/);
+      braces?.[1].split(",").forEach((part) => {
+        const name = part.trim().split(/\s+as\s+/)[0].replace(/^type\s+/, "").trim();
+        if (name) names.set(name, source);
+      });
+      const defaultName = clause.replace(/\{[^}]*\}/, "").replace(/\*\s+as\s+\w+/, "").replace(",", "").trim();
+      if (/^[A-Za-z_$][\w$]*$/.test(defaultName)) names.set(defaultName, source);
+      continue;
+    }
+
+    // from pkg.module import a, b as c
+    const pythonFrom = statement.match(/^from\s+([\w.]+)\s+import\s+(.+)$/s);
+    if (pythonFrom) {
+      pythonFrom[2]
+        .replace(/[()]/g, "")
+        .split(",")
+        .forEach((part) => {
+          const name = part.trim().split(/\s+as\s+/)[0].trim();
+          if (name && name !== "*") names.set(name, pythonFrom[1]);
+        });
+      continue;
+    }
+
+    // import com.example.Foo;
+    const java = statement.match(/^import\s+(?:static\s+)?([\w.]+)\.(\w+)\s*;/);
+    if (java) {
+      names.set(java[2], `${java[1]}.${java[2]}`);
+    }
+  }
+
+  return names;
+}
+
+/** Whether an import specifier like "./utils/math" or "pkg.utils" points at `filePath`. */
+function moduleMatchesFile(specifier: string, filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/").replace(/\.[^/.]+$/, "");
+  // JS/TS specifiers are paths; Python and Java use dotted module names
+  const modulePath = specifier.includes("/")
+    ? specifier.replace(/^(\.\.?\/)+/, "").replace(/\.[jt]sx?$/, "")
+    : specifier.replace(/^\.+/, "").replace(/\./g, "/");
+  return normalized.endsWith(`/${modulePath}`) || normalized.endsWith(`/${modulePath}/index`);
+}
+
+async function readLines(filePath: string, cache: Map<string, string[]>): Promise<string[]> {
+  let lines = cache.get(filePath);
+  if (!lines) {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+      lines = Buffer.from(bytes).toString("utf8").split(/\r?\n/);
+    } catch {
+      lines = [];
+    }
+    cache.set(filePath, lines);
+  }
+  return lines;
+}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { ChatMessage } from "./aiService";
+
+function getHistoryConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    maxMessages: config.get<number>("history.maxMessages") ?? 20,
+    maxChars: config.get<number>("history.maxChars") ?? 24000,
+  };
+}
+
+/**
+ * Per-session chat transcript. Stores the raw user/assistant turns (without
+ * the code context that was attached when they were sent) and trims the
+ * oldest turns once the configured limits are exceeded.
+ */
+export class Conversation {
+  private messages: ChatMessage[] = [];
+
+  /**
+   * Record a completed exchange. Failed requests are never recorded.
+   */
+  public addExchange(userContent: string, assistantContent: string): void {
+    this.messages.push({ role: "user", content: userContent });
+    this.messages.push({ role: "assistant", content: assistantContent });
+    this.trim();
+  }
+
+  /**
+   * Record something that happened outside the chat (e.g. the output of a
+   * command the user ran) so the assistant can refer to it in the next turn.
+   */
+  public addNote(content: string): void {
+    this.messages.push({ role: "user", content });
+    this.trim();
+  }
+
+  /**
+   * Forget the latest exchange so it can be asked again. Does nothing when
+   * something else was recorded after it.
+   */
+  public removeLastExchange(): void {
+    const count = this.messages.length;
+    if (
+      count >= 2 &&
+      this.messages[count - 1].role === "assistant" &&
+      this.messages[count - 2].role === "user"
+    ) {
+      this.messages.splice(count - 2, 2);
+    }
+  }
+
+  public getMessages(): ChatMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Build the message list for the next request: the stored history followed
+   * by the new user prompt (which may include code context).
+   */
+  public buildRequest(prompt: string): ChatMessage[] {
+    return [...this.messages, { role: "user", content: prompt }];
+  }
+
+  public clear(): void {
+    this.messages = [];
+  }
+
+  private trim(): void {
+    const { maxMessages, maxChars } = getHistoryConfig();
+
+    const totalChars = () =>
+      this.messages.reduce((sum, m) => sum + m.content.length, 0);
+
+    // Drop the oldest turns, but always keep the most recent exchange so
+    // follow-up questions have something to refer to. The transcript never
+    // starts with an orphaned assistant reply.
+    while (
+      this.messages.length > 2 &&
+      (this.messages.length > maxMessages || totalChars() > maxChars)
+    ) {
+      this.messages.shift();
+      while (this.messages.length > 2 && this.messages[0].role === "assistant") {
+        this.messages.shift();
+      }
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Hunk, computeHunks, splitLines } from "./lineDiff";
+
+export const SUGGESTION_SCHEME = "ai-suggestion";
+
+interface ReviewSession {
+  targetUri: vscode.Uri;
+  suggestionUri: vscode.Uri;
+  /** The AI proposal; rejected hunks are reverted in here */
+  proposed: string;
+}
+
+/**
+ * Serves AI-suggested file contents as virtual `ai-suggestion:` documents,
+ * shows them in the diff editor next to the real file and lets the user
+ * accept or reject each hunk through CodeLens actions.
+ *
+ * Accepting a hunk edits the real document in memory only; nothing is
+ * written to disk until the user saves.
+ */
+export class DiffReviewManager
+  implements vscode.TextDocumentContentProvider, vscode.CodeLensProvider
+{
+  private sessions = new Map<string, ReviewSession>();
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+  public readonly onDidChange = this._onDidChange.event;
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider(SUGGESTION_SCHEME, this),
+      vscode.languages.registerCodeLensProvider({ scheme: SUGGESTION_SCHEME }, this),
+      vscode.commands.registerCommand("aiDevAssistant.acceptHunk", (key: string, index: number) =>
+        this.acceptHunk(key, index)
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.rejectHunk", (key: string, index: number) =>
+        this.rejectHunk(key, index)
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.acceptAllChanges", (key?: string) =>
+        this.acceptAll(key ?? this.activeSessionKey())
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.rejectAllChanges", (key?: string) =>
+        this.rejectAll(key ?? this.activeSessionKey())
+      ),
+      this._onDidChange,
+      this._onDidChangeCodeLenses,
+      // Keep the hunks in sync when the user edits the real file meanwhile
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (this.sessions.has(e.document.uri.toString())) {
+          this._onDidChangeCodeLenses.fire();
+        }
+      })
+    );
+  }
+
+  /**
+   * Open the diff editor for `targetUri` against `suggested`. Replaces any
+   * review already open for the same file.
+   */
+  public async openReview(targetUri: vscode.Uri, suggested: string): Promise<void> {
+    const key = targetUri.toString();
+    const suggestionUri = vscode.Uri.from({
+      scheme: SUGGESTION_SCHEME,
+      path: targetUri.path,
+      query: key,
+    });
+
+    const document = await vscode.workspace.openTextDocument(targetUri);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+    this.sessions.set(key, {
+      targetUri,
+      suggestionUri,
+      proposed: splitLines(suggested).join(eol),
+    });
+    this._onDidChange.fire(suggestionUri);
+    this._onDidChangeCodeLenses.fire();
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      targetUri,
+      suggestionUri,
+      `${path.basename(targetUri.fsPath)} ↔ AI Suggestion`,
+      { preview: false }
+    );
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.sessions.get(uri.query)?.proposed ?? "";
+  }
+
+  public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const key = document.uri.query;
+    const session = this.sessions.get(key);
+    if (!session) {
+      return [];
+    }
+
+    const hunks = await this.currentHunks(session);
+    if (hunks.length === 0) {
+      return [];
+    }
+
+    const top = new vscode.Range(0, 0, 0, 0);
+    const lenses = [
+      new vscode.CodeLens(top, {
+        title: `✓ Accept all (${hunks.length})`,
+        command: "aiDevAssistant.acceptAllChanges",
+        arguments: [key],
+      }),
+      new vscode.CodeLens(top, {
+        title: "✗ Reject all",
+        command: "aiDevAssistant.rejectAllChanges",
+        arguments: [key],
+      }),
+    ];
+
+    hunks.forEach((hunk, index) => {
+      const line = Math.min(hunk.proposedStart, Math.max(document.lineCount - 1, 0));
+      const range = new vscode.Range(line, 0, line, 0);
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: "✓ Accept change",
+          command: "aiDevAssistant.acceptHunk",
+          arguments: [key, index],
+        }),
+        new vscode.CodeLens(range, {
+          title: "✗ Reject change",
+          command: "aiDevAssistant.rejectHunk",
+          arguments: [key, index],
+        })
+      );
+    });
+
+    return lenses;
+  }
+
+  private async acceptHunk(key: string, index: number): Promise<void> {
+    const session = this.sessions.get(key);
+    if (!session) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(session.targetUri);
+    const hunk = (await this.currentHunks(session))[index];
+    if (!hunk) {
+      return;
+    }
+
+    const proposedLines = splitLines(session.proposed).slice(
+      hunk.proposedStart,
+      hunk.proposedStart + hunk.proposedLength
+    );
+
+    const { range, text } = this.hunkEdit(document, hunk, proposedLines);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(session.targetUri, range, text);
+    await vscode.workspace.applyEdit(edit);
+    await this.afterChange(session);
+  }
+
+  private async rejectHunk(key: string, index: number): Promise<void> {
+    const session = this.sessions.get(key);
+    if (!session) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(session.targetUri);
+    const hunk = (await this.currentHunks(session))[index];
+    if (!hunk) {
+      return;
+    }
+
+    // Revert the hunk inside the proposal so it matches the real file again
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const originalLines = splitLines(document.getText()).slice(
+      hunk.originalStart,
+      hunk.originalStart + hunk.originalLength
+    );
+    const proposedLines = splitLines(session.proposed);
+    proposedLines.splice(hunk.proposedStart, hunk.proposedLength, ...originalLines);
+    session.proposed = proposedLines.join(eol);
+
+    this._onDidChange.fire(session.suggestionUri);
+    await this.afterChange(session);
+  }
+
+  private async acceptAll(key: string | undefined): Promise<void> {
+    const session = key ? this.sessions.get(key) : undefined;
+    if (!session) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(session.targetUri);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      session.targetUri,
+      new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+      session.proposed
+    );
+    await vscode.workspace.applyEdit(edit);
+    await this.afterChange(session);
+  }
+
+  private async rejectAll(key: string | undefined): Promise<void> {
+    const session = key ? this.sessions.get(key) : undefined;
+    if (!session) {
+      return;
+    }
+
+    await this.closeSession(session);
+    vscode.window.showInformationMessage("AI suggestion discarded.");
+  }
+
+  private async afterChange(session: ReviewSession): Promise<void> {
+    this._onDidChangeCodeLenses.fire();
+
+    if ((await this.currentHunks(session)).length === 0) {
+      await this.closeSession(session);
+      vscode.window.showInformationMessage(
+        `Review of ${path.basename(session.targetUri.fsPath)} finished. Save the file to keep the accepted changes.`
+      );
+    }
+  }
+
+  private async closeSession(session: ReviewSession): Promise<void> {
+    this.sessions.delete(session.targetUri.toString());
+    this._onDidChangeCodeLenses.fire();
+
+    // Close the diff editor that shows this suggestion
+    for (const group of vscode.window.tabGroups.all) {
+      for (const tab of group.tabs) {
+        if (
+          tab.input instanceof vscode.TabInputTextDiff &&
+          tab.input.modified.toString() === session.suggestionUri.toString()
+        ) {
+          await vscode.window.tabGroups.close(tab);
+        }
+      }
+    }
+  }
+
+  private async currentHunks(session: ReviewSession): Promise<Hunk[]> {
+    const document = await vscode.workspace.openTextDocument(session.targetUri);
+    return computeHunks(splitLines(document.getText()), splitLines(session.proposed));
+  }
+
+  /**
+   * Edit that replaces the hunk's original lines in the real document with
+   * `lines`, taking care of the line breaks around the first and last line.
+   */
+  private hunkEdit(
+    document: vscode.TextDocument,
+    hunk: Hunk,
+    lines: string[]
+  ): { range: vscode.Range; text: string } {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const lineCount = document.lineCount;
+    const start = hunk.originalStart;
+    const end = hunk.originalStart + hunk.originalLength;
+    const text = lines.join(eol);
+
+    if (end < lineCount) {
+      // Ends before the last line: the range swallows the line break after
+      // the replaced lines, so the new text brings its own
+      const range = new vscode.Range(start, 0, end, 0);
+      return { range, text: lines.length > 0 ? text + eol : "" };
+    }
+
+    const docEnd = document.lineAt(lineCount - 1).range.end;
+    if (hunk.originalLength === 0) {
+      // Append after the last line
+      return { range: new vscode.Range(docEnd, docEnd), text: eol + text };
+    }
+    if (lines.length === 0 && start > 0) {
+      // Delete through the end of the file, including the preceding line break
+      const previousEnd = document.lineAt(start - 1).range.end;
+      return { range: new vscode.Range(previousEnd, docEnd), text: "" };
+    }
+    return { range: new vscode.Range(new vscode.Position(start, 0), docEnd), text };
+  }
+
+  private activeSessionKey(): string | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    if (!uri) {
+      return undefined;
+    }
+    return uri.scheme === SUGGESTION_SCHEME ? uri.query : uri.toString();
+  }
+}
@@ -0,0 +1,118 @@
+export interface Hunk {
+  /** 0-based first line in the original text */
+  originalStart: number;
+  /** Number of original lines replaced by this hunk (0 for a pure insertion) */
+  originalLength: number;
+  /** 0-based first line in the proposed text */
+  proposedStart: number;
+  /** Number of proposed lines (0 for a pure deletion) */
+  proposedLength: number;
+}
+
+// Above this many cells the LCS table gets too large; the changed region is
+// then reported as a single hunk instead.
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Line-based diff between two texts, grouped into hunks of consecutive
+ * changes. Common prefix/suffix are stripped first so the LCS only runs over
+ * the region that actually changed.
+ */
+export function computeHunks(original: string[], proposed: string[]): Hunk[] {
+  let prefix = 0;
+  while (
+    prefix < original.length &&
+    prefix < proposed.length &&
+    original[prefix] === proposed[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < proposed.length - prefix &&
+    original[original.length - 1 - suffix] === proposed[proposed.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = original.slice(prefix, original.length - suffix);
+  const b = proposed.slice(prefix, proposed.length - suffix);
+
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [
+      {
+        originalStart: prefix,
+        originalLength: a.length,
+        proposedStart: prefix,
+        proposedLength: b.length,
+      },
+    ];
+  }
+
+  return diffMiddle(a, b).map((hunk) => ({
+    ...hunk,
+    originalStart: hunk.originalStart + prefix,
+    proposedStart: hunk.proposedStart + prefix,
+  }));
+}
+
+function diffMiddle(a: string[], b: string[]): Hunk[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  // lcs[i * cols + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+
+  const open = () => {
+    if (!current) {
+      current = { originalStart: i, originalLength: 0, proposedStart: j, proposedLength: 0 };
+    }
+    return current;
+  };
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i * cols + j + 1] >= lcs[(i + 1) * cols + j])) {
+      open().proposedLength++;
+      j++;
+    } else {
+      open().originalLength++;
+      i++;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
@@ -0,0 +1,366 @@
+import Parser from "tree-sitter";
+import { FunctionMetadata } from "../codeAnalysis/astParser";
+
+export type DocStyle = "jsdoc" | "tsdoc" | "javadoc" | "docstring" | "godoc" | "rustdoc" | "xmldoc";
+
+const STYLES: Record<string, DocStyle> = {
+  javascript: "jsdoc",
+  javascriptreact: "jsdoc",
+  typescript: "tsdoc",
+  typescriptreact: "tsdoc",
+  java: "javadoc",
+  python: "docstring",
+  go: "godoc",
+  rust: "rustdoc",
+  csharp: "xmldoc",
+};
+
+export const STYLE_NAMES: Record<DocStyle, string> = {
+  jsdoc: "JSDoc",
+  tsdoc: "TSDoc",
+  javadoc: "Javadoc",
+  docstring: "Google-style docstring",
+  godoc: "Go doc comment",
+  rustdoc: "rustdoc",
+  xmldoc: "XML documentation comment",
+};
+
+/** What the model writes; the comment's layout comes from the FunctionMetadata. */
+export interface DocContent {
+  summary: string;
+  /** Description per parameter name */
+  params: Record<string, string>;
+  returns?: string;
+  throws: Array<{ type: string; description: string }>;
+}
+
+/** Where a function's doc comment goes, and the one it has now. */
+export interface DocPlacement {
+  /** Offsets into the file text replaced by the new comment (equal for an insertion) */
+  start: number;
+  end: number;
+  indent: string;
+  /** Text of the existing comment or docstring */
+  existing?: string;
+}
+
+// Lines between a comment and its declaration that belong to the declaration:
+// decorators, attributes and tool directives
+const ATTACHED_LINE = new RegExp(
+  [
+    String.raw`@[\w.]+(\(.*\))?`, // @Override, @Get("/")
+    String.raw`#\[.*\]`, // #[test]
+    String.raw`\/\/\s*(eslint-|@ts-|prettier-ignore|istanbul |nolint)`,
+    String.raw`\/\/go:`,
+    String.raw`\/\*\s*(eslint|istanbul)\b.*\*\/`,
+  ]
+    .map((pattern) => `^\\s*${pattern}\\s*$`)
+    .join("|")
+);
+const WRAP_WIDTH = 80;
+const VOID_TYPES = new Set(["void", "()", "None", "Promise<void>", "Task", "undefined", "never"]);
+
+export function getDocStyle(languageId: string): DocStyle | undefined {
+  return STYLES[languageId];
+}
+
+/**
+ * Find where the doc comment of `func` belongs: directly above the
+ * declaration (above its decorators and directive comments), or for Python
+ * as the first statement of the body. Returns undefined when there is no
+ * room for one, e.g. a one-line Python function.
+ */
+export function findDocPlacement(
+  text: string,
+  func: FunctionMetadata,
+  style: DocStyle,
+  tree: Parser.Tree | null
+): DocPlacement | undefined {
+  const lines = text.split("\n");
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+  const lineText = (i: number) => lines[i].replace(/\r$/, "");
+
+  if (style === "docstring") {
+    return findDocstring(func, tree, lineOffsets, lineText);
+  }
+
+  const declaration = func.lineStart - 1;
+  const indent = lineText(declaration).match(/^\s*/)![0];
+  let line = declaration - 1;
+  while (line >= 0 && ATTACHED_LINE.test(lineText(line))) line--;
+  const insertAt = lineOffsets[line + 1];
+
+  // Line comments count as documentation only where they are the convention
+  const isDocLine = (l: string) =>
+    style === "godoc"
+      ? /^\s*\/\//.test(l) && !ATTACHED_LINE.test(l)
+      : (style === "rustdoc" || style === "xmldoc") && /^\s*\/\/\//.test(l);
+  const usesBlockComments = style === "jsdoc" || style === "tsdoc" || style === "javadoc";
+
+  let first = line + 1;
+  if (usesBlockComments && line >= 0 && lineText(line).trim().endsWith("*/")) {
+    let start = line;
+    while (start > 0 && !lineText(start).trim().startsWith("/*")) start--;
+    // Only /** ... */ is a doc comment; a plain block comment may be a licence header
+    if (lineText(start).trim().startsWith("/**")) first = start;
+  } else {
+    while (first > 0 && isDocLine(lineText(first - 1))) first--;
+  }
+
+  if (first > line) {
+    return { start: insertAt, end: insertAt, indent };
+  }
+  const start = lineOffsets[first];
+  return { start, end: insertAt, indent, existing: text.slice(start, insertAt).trim() };
+}
+
+function findDocstring(
+  func: FunctionMetadata,
+  tree: Parser.Tree | null,
+  lineOffsets: number[],
+  lineText: (i: number) => string
+): DocPlacement | undefined {
+  const node = tree?.rootNode
+    .descendantsOfType("function_definition")
+    .find((n) => n.startPosition.row === func.lineStart - 1);
+  const body = node?.childForFieldName("body");
+  const firstStatement = body?.namedChildren.find((n) => n.type !== "comment");
+  if (!node || !body || !firstStatement || firstStatement.startPosition.row === node.startPosition.row) {
+    return undefined;
+  }
+
+  const indent = lineText(firstStatement.startPosition.row).match(/^\s*/)![0];
+  const docstring =
+    firstStatement.type === "expression_statement" && firstStatement.namedChildren[0]?.type === "string"
+      ? firstStatement
+      : undefined;
+  if (docstring) {
+    return {
+      start: lineOffsets[docstring.startPosition.row],
+      end: lineOffsets[docstring.endPosition.row + 1] ?? docstring.endIndex,
+      indent,
+      existing: docstring.text,
+    };
+  }
+
+  // Straight after the `def ...:` line, above any comments that open the body
+  const colon = node.children.find((n) => n.type === ":");
+  const firstLine = Math.min(firstStatement.startPosition.row, (colon?.endPosition.row ?? Infinity) + 1);
+  const start = lineOffsets[firstLine];
+  return { start, end: start, indent };
+}
+
+/**
+ * The comment for `func` in `style`, indented and ending with a line break,
+ * ready to put at the placement. Parameters come from the metadata in
+ * declaration order; the model only supplies their descriptions.
+ */
+export function renderDocComment(
+  style: DocStyle,
+  func: FunctionMetadata,
+  content: DocContent,
+  indent: string
+): string {
+  const describe = (name: string) =>
+    content.params[name] ?? content.params[name.replace(/^[*&.]+/, "")] ?? "";
+  // Destructured parameters have no single name to document
+  const params = func.params.filter((p) => /^[.*&]*[\w$]+$/.test(p.name) && p.name !== "unknown");
+  const knownType = (type: string) => (type && type !== "unknown" ? type : "");
+  const returns =
+    content.returns && !VOID_TYPES.has(func.returnType.trim()) ? content.returns : undefined;
+  const nonPublic = func.visibility === "private" || func.visibility === "protected";
+
+  switch (style) {
+    case "jsdoc":
+    case "tsdoc":
+    case "javadoc": {
+      const tags: string[] = [];
+      for (const param of params) {
+        const name = param.name.replace(/^\.\.\./, "");
+        if (style === "tsdoc") {
+          tags.push(`@param ${name} - ${describe(param.name)}`);
+        } else if (style === "jsdoc") {
+          const type = knownType(param.type);
+          tags.push(`@param ${type ? `{${type}} ` : ""}${name} ${describe(param.name)}`);
+        } else {
+          tags.push(`@param ${name} ${describe(param.name)}`);
+        }
+      }
+      if (returns) {
+        const type = style === "jsdoc" ? knownType(func.returnType) : "";
+        tags.push(`${style === "javadoc" ? "@return" : "@returns"} ${type ? `{${type}} ` : ""}${returns}`);
+      }
+      for (const error of content.throws) {
+        const type = style === "javadoc" ? error.type : `{${error.type}}`;
+        tags.push(`@throws ${type} ${error.description}`);
+      }
+      // TS and Java say it with modifiers; plain JS needs the tag
+      if (style === "jsdoc" && nonPublic) {
+        tags.push(`@${func.visibility}`);
+      }
+      return blockComment(indent, paragraphs(content.summary, tags, WRAP_WIDTH - indent.length - 3));
+    }
+
+    case "docstring": {
+      const sections: string[] = [];
+      if (params.length > 0) {
+        sections.push(
+          "Args:\n" +
+            params
+              .map((p) => {
+                const type = knownType(p.type);
+                return `    ${p.name}${type ? ` (${type})` : ""}: ${describe(p.name)}`;
+              })
+              .join("\n")
+        );
+      }
+      if (returns) {
+        const type = knownType(func.returnType);
+        sections.push(`Returns:\n    ${type ? `${type}: ` : ""}${returns}`);
+      }
+      if (content.throws.length > 0) {
+        sections.push("Raises:\n" + content.throws.map((e) => `    ${e.type}: ${e.description}`).join("\n"));
+      }
+      const body = [wrapText(content.summary, WRAP_WIDTH - indent.length), ...sections].join("\n\n");
+      const bodyLines = body.split("\n");
+      if (bodyLines.length === 1) {
+        return `${indent}"""${bodyLines[0]}"""\n`;
+      }
+      return (
+        `${indent}"""${bodyLines[0]}\n` +
+        bodyLines.slice(1).map((l) => (l ? `${indent}${l}` : "")).join("\n") +
+        `\n${indent}"""\n`
+      );
+    }
+
+    case "godoc": {
+      // Go documents parameters in prose; the comment starts with the name
+      const summary = content.summary.startsWith(func.name)
+        ? content.summary
+        : `${func.name} ${lowerFirst(content.summary)}`;
+      return lineComment(indent, "//", wrapText(summary, WRAP_WIDTH - indent.length - 3).split("\n"));
+    }
+
+    case "rustdoc": {
+      const sections: string[] = [];
+      if (params.length > 0) {
+        const items = params.map((p) => `* \`${p.name}\` - ${describe(p.name)}`);
+        sections.push(`# Arguments\n\n${items.join("\n")}`);
+      }
+      if (returns) {
+        sections.push(`# Returns\n\n${returns}`);
+      }
+      if (content.throws.length > 0) {
+        const items = content.throws.map((e) => `* \`${e.type}\` - ${e.description}`);
+        sections.push(`# Errors\n\n${items.join("\n")}`);
+      }
+      const body = [wrapText(content.summary, WRAP_WIDTH - indent.length - 4), ...sections].join("\n\n");
+      return lineComment(indent, "///", body.split("\n"));
+    }
+
+    case "xmldoc": {
+      const summary = wrapText(escapeXml(content.summary), WRAP_WIDTH - indent.length - 4);
+      const lines = ["<summary>", ...summary.split("\n"), "</summary>"];
+      for (const param of params) {
+        lines.push(`<param name="${param.name}">${escapeXml(describe(param.name))}</param>`);
+      }
+      if (returns) {
+        lines.push(`<returns>${escapeXml(returns)}</returns>`);
+      }
+      for (const error of content.throws) {
+        lines.push(`<exception cref="${error.type}">${escapeXml(error.description)}</exception>`);
+      }
+      return lineComment(indent, "///", lines);
+    }
+  }
+}
+
+/** Summary, a blank line, then the tags (block comments only). */
+function paragraphs(summary: string, tags: string[], width: number): string[] {
+  const lines = wrapText(summary, width).split("\n");
+  return tags.length > 0 ? [...lines, "", ...tags] : lines;
+}
+
+/** A JSDoc/Javadoc block comment, on one line when the text is one short line. */
+function blockComment(indent: string, lines: string[]): string {
+  if (lines.length === 1 && indent.length + lines[0].length < WRAP_WIDTH - 7) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  const body = lines.map((l) => `${indent} *${l ? ` ${l}` : ""}`);
+  return [`${indent}/**`, ...body, `${indent} */`].join("\n") + "\n";
+}
+
+function lineComment(indent: string, marker: string, lines: string[]): string {
+  return lines.map((l) => `${indent}${marker}${l ? ` ${l}` : ""}\n`).join("");
+}
+
+/** Greedy word wrap that keeps the model's own line breaks. */
+function wrapText(text: string, width: number): string {
+  return text
+    .trim()
+    .split("\n")
+    .map((paragraph) => {
+      const lines: string[] = [];
+      let current = "";
+      for (const word of paragraph.trim().split(/\s+/)) {
+        if (current && current.length + 1 + word.length > width) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      }
+      lines.push(current);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** The model's JSON answer, or undefined if it is not usable. */
+export function parseDocContent(response: string): DocContent | undefined {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    return undefined;
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+  if (typeof json?.summary !== "string" || !json.summary.trim()) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  if (json.params && typeof json.params === "object") {
+    for (const [name, description] of Object.entries(json.params)) {
+      if (typeof description === "string") params[name] = description.trim();
+    }
+  }
+  return {
+    summary: json.summary.trim(),
+    params,
+    returns: typeof json.returns === "string" && json.returns.trim() ? json.returns.trim() : undefined,
+    throws: Array.isArray(json.throws)
+      ? json.throws
+          .filter((t: any) => typeof t?.type === "string" && t.type.trim())
+          .map((t: any) => ({ type: t.type.trim(), description: String(t.description ?? "").trim() }))
+      : [],
+  };
+}
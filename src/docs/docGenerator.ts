@@ -0,0 +1,243 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { askLLM } from "../aiService";
+import { ASTParser, FunctionMetadata } from "../codeAnalysis/astParser";
+import { getLanguage } from "../codeAnalysis/languageRegistry";
+import { buildContext } from "../context/contextBuilder";
+import { DiffReviewManager } from "../diff/diffReviewManager";
+import { revealFunction } from "../codeLens/functionActionsProvider";
+import { warnIfExcluded } from "../privacy/excludedFiles";
+import {
+  DocPlacement,
+  DocStyle,
+  STYLE_NAMES,
+  findDocPlacement,
+  getDocStyle,
+  parseDocContent,
+  renderDocComment,
+} from "./docComments";
+
+interface PlannedDoc {
+  placement: DocPlacement;
+  comment: string;
+}
+
+/**
+ * "Document function" and "Document undocumented functions in file". The
+ * model describes each function; parameters, return type and visibility come
+ * from the ASTParser's FunctionMetadata and decide the comment's tags. The
+ * result opens in the diff review, so nothing changes until it is accepted.
+ */
+export class DocCommentGenerator {
+  constructor(
+    private readonly parser: ASTParser,
+    private readonly diffReview: DiffReviewManager
+  ) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.commands.registerCommand("aiDevAssistant.documentFunction", (uri?: vscode.Uri, line?: number) =>
+        this.documentFunction(uri, line)
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.documentFile", (uri?: vscode.Uri) => this.documentFile(uri))
+    );
+  }
+
+  private async documentFunction(uri?: vscode.Uri, line?: number): Promise<void> {
+    if (uri instanceof vscode.Uri && typeof line === "number") {
+      await revealFunction(uri, line);
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage("No active editor");
+      return;
+    }
+
+    const document = editor.document;
+    const analysis = this.parser.parseFile(document.getText(), document.languageId);
+    const cursorLine = editor.selection.active.line + 1;
+    const func = analysis?.functions
+      .filter((f) => cursorLine >= f.lineStart && cursorLine <= f.lineEnd)
+      .pop();
+    if (!func) {
+      vscode.window.showWarningMessage("Place cursor inside a function to document it");
+      return;
+    }
+
+    await this.document(document, [func], `Documenting ${func.name}...`);
+  }
+
+  private async documentFile(uri?: vscode.Uri): Promise<void> {
+    const document =
+      uri instanceof vscode.Uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : vscode.window.activeTextEditor?.document;
+    if (!document) {
+      vscode.window.showErrorMessage("No active editor");
+      return;
+    }
+
+    const style = getDocStyle(document.languageId);
+    const analysis = this.parser.parseFile(document.getText(), document.languageId);
+    if (!style || !analysis) {
+      vscode.window.showWarningMessage(`Doc comments are not supported for ${document.languageId}`);
+      return;
+    }
+
+    // Functions nested in other functions are implementation details
+    const text = document.getText();
+    const tree = this.parser.parseTree(text, document.languageId);
+    const undocumented = analysis.functions.filter(
+      (func) =>
+        !analysis.functions.some(
+          (outer) =>
+            outer !== func &&
+            outer.lineStart <= func.lineStart &&
+            outer.lineEnd >= func.lineEnd &&
+            outer.lineEnd - outer.lineStart > func.lineEnd - func.lineStart
+        ) && findDocPlacement(text, func, style, tree)?.existing === undefined
+    );
+
+    const fileName = path.basename(document.fileName);
+    if (undocumented.length === 0) {
+      vscode.window.showInformationMessage(`Every function in ${fileName} already has a doc comment.`);
+      return;
+    }
+
+    await this.document(document, undocumented, `Documenting ${undocumented.length} functions in ${fileName}...`);
+  }
+
+  private async document(
+    document: vscode.TextDocument,
+    functions: FunctionMetadata[],
+    title: string
+  ): Promise<void> {
+    const style = getDocStyle(document.languageId);
+    if (!style) {
+      vscode.window.showWarningMessage(`Doc comments are not supported for ${document.languageId}`);
+      return;
+    }
+    if (warnIfExcluded(document.uri)) {
+      return;
+    }
+
+    const text = document.getText();
+    const version = document.version;
+    const tree = this.parser.parseTree(text, document.languageId);
+    const planned: PlannedDoc[] = [];
+    const failed: string[] = [];
+    let cancelled = false;
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+      async (progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => {
+          cancelled = true;
+          abortController.abort();
+        });
+
+        for (const [index, func] of functions.entries()) {
+          if (token.isCancellationRequested) return;
+          if (functions.length > 1) {
+            progress.report({ message: `${func.name} (${index + 1}/${functions.length})` });
+          }
+
+          const placement = findDocPlacement(text, func, style, tree);
+          if (!placement) {
+            failed.push(func.name);
+            continue;
+          }
+
+          const response = await askLLM(this.buildPrompt(document, func, style, placement), {
+            signal: abortController.signal,
+            command: "documentation",
+          });
+          if (token.isCancellationRequested) return;
+
+          const content = response.startsWith("❌") ? undefined : parseDocContent(response);
+          if (!content) {
+            failed.push(func.name);
+            continue;
+          }
+          planned.push({ placement, comment: renderDocComment(style, func, content, placement.indent) });
+        }
+      }
+    );
+
+    // Cancelled: nothing is proposed, not even the functions already documented
+    if (cancelled) {
+      return;
+    }
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(`Could not document: ${failed.join(", ")}`);
+    }
+    if (planned.length === 0) {
+      return;
+    }
+    if (document.version !== version) {
+      vscode.window.showWarningMessage(
+        "The file changed while the documentation was written; run the command again."
+      );
+      return;
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    let documented = text;
+    for (const { placement, comment } of [...planned].sort((a, b) => b.placement.start - a.placement.start)) {
+      documented =
+        documented.slice(0, placement.start) + comment.replace(/\n/g, eol) + documented.slice(placement.end);
+    }
+
+    await this.diffReview.openReview(document.uri, documented);
+  }
+
+  private buildPrompt(
+    document: vscode.TextDocument,
+    func: FunctionMetadata,
+    style: DocStyle,
+    placement: DocPlacement
+  ): string {
+    const language = getLanguage(document.languageId)?.displayName ?? document.languageId;
+    const code = buildContext([
+      {
+        label: `Code of ${func.name}`,
+        content: document.getText(new vscode.Range(func.lineStart - 1, 0, func.lineEnd, 0)).trimEnd(),
+        fence: document.languageId,
+        priority: 100,
+        truncate: "code",
+      },
+    ]);
+    const params = func.params.map((p) => (p.type && p.type !== "unknown" ? `${p.name}: ${p.type}` : p.name));
+
+    return `
+Write the documentation for this ${language} function; it will become a ${STYLE_NAMES[style]}.
+
+File: ${path.basename(document.fileName)}
+Name: ${func.name}
+Signature: ${func.signature}
+Parameters: ${params.join(", ") || "none"}
+Return type: ${func.returnType}
+Visibility: ${func.visibility ?? "unknown"}
+
+${code.text}${
+      placement.existing
+        ? `
+It already has this documentation. Keep what is still accurate, correct what is not and fill in what is missing:
+${placement.existing}
+`
+        : ""
+    }
+Answer with a JSON object and nothing else:
+{"summary": "<what the function does and when to use it, 1-3 sentences>",
+ "params": {"<parameter name>": "<what the argument means>"},
+ "returns": "<what it returns, or \\"\\" when it returns nothing>",
+ "throws": [{"type": "<exception or error type>", "description": "<when it is raised>"}]}
+Describe behaviour, not implementation. Do not repeat the types in the descriptions.${
+      style === "godoc" ? `\nStart the summary with the function name, as Go doc comments do.` : ""
+    }
+`;
+  }
+}
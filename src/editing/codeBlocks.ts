@@ -0,0 +1,23 @@
+const SHELL_LANGUAGES = ["bash", "sh", "shell", "zsh", "console", "powershell", "ps1", "cmd"];
+
+/**
+ * The code in a model response. Models wrap code in markdown fences even
+ * when asked not to; the fenced blocks (except shell snippets) are joined and
+ * returned. Text without fences is returned as is.
+ */
+export function stripCodeFences(response: string): string {
+  const blocks: string[] = [];
+  for (const match of response.matchAll(/```([\w+#-]*)[^\n]*\n([\s\S]*?)```/g)) {
+    if (!SHELL_LANGUAGES.includes(match[1].toLowerCase())) {
+      blocks.push(match[2].replace(/\s+$/, ""));
+    }
+  }
+
+  if (blocks.length > 0) {
+    return `${blocks.join("\n\n")}\n`;
+  }
+
+  // An unterminated fence (e.g. the answer was cut off): drop the opening line
+  const open = response.match(/^\s*```[^\n]*\n([\s\S]*)$/);
+  return `${(open ? open[1] : response).trim()}\n`;
+}
@@ -0,0 +1,261 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ASTParser, FunctionMetadata } from "../codeAnalysis/astParser";
+import { isInWorkspace, resolveWorkspaceFile } from "../workspaceFiles";
+
+export interface FileEditSuggestion {
+  fileName?: string | null;
+  content: string;
+}
+
+export interface PlannedEdit {
+  range: vscode.Range;
+  text: string;
+  /** "function" when only the matching function is replaced */
+  scope: "function" | "file";
+  functionName?: string;
+}
+
+/**
+ * Work out where a suggestion goes in `document`. A snippet that consists of
+ * a single function replaces only the function of the same name (found via
+ * the AST line ranges); anything else replaces the whole file.
+ */
+export function planSuggestionEdit(
+  document: vscode.TextDocument,
+  suggestion: string,
+  parser: ASTParser
+): PlannedEdit {
+  const fullRange = new vscode.Range(
+    document.positionAt(0),
+    document.positionAt(document.getText().length)
+  );
+  const wholeFile: PlannedEdit = { range: fullRange, text: suggestion, scope: "file" };
+
+  const snippetFunction = findSingleFunction(suggestion, document.languageId, parser);
+  if (!snippetFunction) {
+    return wholeFile;
+  }
+
+  const analysis = parser.parseFile(document.getText(), document.languageId);
+  const candidates = analysis?.functions.filter((f) => f.name === snippetFunction.name) ?? [];
+  if (candidates.length === 0) {
+    return wholeFile;
+  }
+
+  // Prefer the overload with the same number of parameters
+  const target =
+    candidates.find((f) => f.params.length === snippetFunction.params.length) ?? candidates[0];
+
+  const snippetLines = suggestion
+    .split(/\r?\n/)
+    .slice(snippetFunction.lineStart - 1, snippetFunction.lineEnd);
+  const targetIndent = document.lineAt(target.lineStart - 1).text.match(/^\s*/)?.[0] ?? "";
+  const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+  return {
+    range: new vscode.Range(
+      target.lineStart - 1,
+      0,
+      target.lineEnd - 1,
+      document.lineAt(target.lineEnd - 1).text.length
+    ),
+    text: reindent(snippetLines, targetIndent).join(eol),
+    scope: "function",
+    functionName: target.name,
+  };
+}
+
+/** Full text of `document` after applying the suggestion (used for diffs). */
+export function applyPlannedEdit(document: vscode.TextDocument, edit: PlannedEdit): string {
+  const text = document.getText();
+  return (
+    text.slice(0, document.offsetAt(edit.range.start)) +
+    edit.text +
+    text.slice(document.offsetAt(edit.range.end))
+  );
+}
+
+/**
+ * Apply a suggestion to the file it names (or, without a name, the active
+ * editor) after the user confirms the file it resolved to and what will be
+ * replaced there, a single function or the entire file.
+ */
+export async function applySuggestion(
+  suggestion: FileEditSuggestion,
+  parser: ASTParser
+): Promise<boolean> {
+  const targetUri = await resolveTarget(suggestion.fileName);
+  if (!targetUri) {
+    return false;
+  }
+
+  const document = await vscode.workspace.openTextDocument(targetUri);
+  const planned = planSuggestionEdit(document, suggestion.content, parser);
+
+  const unnamed = suggestion.fileName ? "" : "The suggestion does not name a file. ";
+  const choice = await vscode.window.showWarningMessage(
+    `${unnamed}${describePlannedEdit(document, planned)}?`,
+    { modal: true },
+    "Apply"
+  );
+  if (choice !== "Apply") {
+    return false;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(targetUri, planned.range, planned.text);
+
+  const success = await vscode.workspace.applyEdit(edit);
+  if (success) {
+    await vscode.window.showTextDocument(document, {
+      selection: new vscode.Range(planned.range.start, planned.range.start),
+    });
+    vscode.window.showInformationMessage(
+      planned.scope === "function"
+        ? `AI edit applied to ${planned.functionName}() in ${path.basename(targetUri.fsPath)}`
+        : `AI edit applied to ${path.basename(targetUri.fsPath)}`
+    );
+  } else {
+    vscode.window.showErrorMessage("Failed to apply edit");
+  }
+  return success;
+}
+
+/**
+ * Apply edits to several files as one WorkspaceEdit, so a single undo
+ * reverts the whole plan. Files that do not exist yet are created.
+ */
+export async function applyEditPlan(
+  suggestions: FileEditSuggestion[],
+  parser: ASTParser
+): Promise<boolean> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  const edit = new vscode.WorkspaceEdit();
+  const summary: string[] = [];
+
+  for (const suggestion of suggestions) {
+    if (!suggestion.fileName) {
+      continue;
+    }
+
+    const existing = await resolveWorkspaceFile(suggestion.fileName);
+    if (existing) {
+      const document = await vscode.workspace.openTextDocument(existing);
+      const planned = planSuggestionEdit(document, suggestion.content, parser);
+      edit.replace(existing, planned.range, planned.text);
+      summary.push(describePlannedEdit(document, planned));
+      continue;
+    }
+
+    const newUri =
+      workspaceFolder && !path.isAbsolute(suggestion.fileName)
+        ? vscode.Uri.joinPath(workspaceFolder.uri, suggestion.fileName)
+        : undefined;
+    if (newUri && isInWorkspace(newUri)) {
+      edit.createFile(newUri, { ignoreIfExists: false });
+      edit.insert(newUri, new vscode.Position(0, 0), suggestion.content);
+      summary.push(`Create ${vscode.workspace.asRelativePath(newUri)}`);
+    } else {
+      vscode.window.showWarningMessage(
+        `Skipping ${suggestion.fileName}: not found, and new files can only be created in the workspace.`
+      );
+    }
+  }
+
+  if (edit.size === 0) {
+    vscode.window.showWarningMessage("No files to edit in this plan.");
+    return false;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Apply AI edits to ${summary.length} file(s)?`,
+    { modal: true, detail: summary.join("\n") },
+    "Apply"
+  );
+  if (choice !== "Apply") {
+    return false;
+  }
+
+  const success = await vscode.workspace.applyEdit(edit);
+  if (success) {
+    vscode.window.showInformationMessage(
+      `AI edits applied to ${summary.length} file(s). Use Undo to revert them together.`
+    );
+  } else {
+    vscode.window.showErrorMessage("Failed to apply edit plan");
+  }
+  return success;
+}
+
+async function resolveTarget(fileName?: string | null): Promise<vscode.Uri | undefined> {
+  if (fileName) {
+    const uri = await resolveWorkspaceFile(fileName);
+    if (!uri) {
+      vscode.window.showErrorMessage(`Could not find ${fileName} in the workspace.`);
+    }
+    return uri;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== "file") {
+    vscode.window.showErrorMessage("No active editor to apply edit");
+    return undefined;
+  }
+  return editor.document.uri;
+}
+
+/** "Replace save() in src/a.ts" or, for whole-file edits, how many lines are replaced by how many. */
+function describePlannedEdit(document: vscode.TextDocument, planned: PlannedEdit): string {
+  const relative = vscode.workspace.asRelativePath(document.uri);
+  if (planned.scope === "function") {
+    return `Replace ${planned.functionName}() in ${relative}`;
+  }
+  const newLines = planned.text.split(/\r?\n/).length;
+  return `Replace the entire file ${relative} (${document.lineCount} lines) with ${newLines} lines`;
+}
+
+/**
+ * Returns the function when the snippet is just one function (blank lines,
+ * comments and decorators around it are allowed).
+ */
+function findSingleFunction(
+  snippet: string,
+  language: string,
+  parser: ASTParser
+): FunctionMetadata | undefined {
+  const analysis = parser.parseFile(snippet, language);
+  if (!analysis || analysis.functions.length === 0) {
+    return undefined;
+  }
+
+  // Nested functions are fine; what matters is one outermost function
+  const outer = analysis.functions.filter(
+    (f) =>
+      !analysis.functions.some(
+        (other) => other !== f && other.lineStart <= f.lineStart && other.lineEnd >= f.lineEnd
+      )
+  );
+  if (outer.length !== 1) {
+    return undefined;
+  }
+
+  const func = outer[0];
+  const lines = snippet.split(/\r?\n/);
+  const outside = [...lines.slice(0, func.lineStart - 1), ...lines.slice(func.lineEnd)];
+  const onlyTrivia = outside.every((line) => /^\s*($|\/\/|\/\*|\*|#|@)/.test(line));
+
+  return onlyTrivia ? func : undefined;
+}
+
+function reindent(lines: string[], indent: string): string[] {
+  const currentIndent = lines[0]?.match(/^\s*/)?.[0] ?? "";
+  return lines.map((line) => {
+    if (!line.trim()) {
+      return "";
+    }
+    return line.startsWith(currentIndent)
+      ? indent + line.slice(currentIndent.length)
+      : indent + line.trimStart();
+  });
+}
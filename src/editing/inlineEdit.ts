@@ -0,0 +1,493 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { askLLM } from "../aiService";
+import { ASTParser, FileAnalysis } from "../codeAnalysis/astParser";
+import { getLanguage } from "../codeAnalysis/languageRegistry";
+import { buildContext } from "../context/contextBuilder";
+import { computeHunks, splitLines } from "../diff/lineDiff";
+import { stripCodeFences } from "./codeBlocks";
+import { warnIfExcluded } from "../privacy/excludedFiles";
+
+const PENDING_CONTEXT_KEY = "aiDevAssistant.inlineEditPending";
+
+interface InlineEditSession {
+  document: vscode.TextDocument;
+  /** First line of the region that shows the diff */
+  startLine: number;
+  /** Lines in the region: unchanged, removed and added ones */
+  lineCount: number;
+  original: string;
+  proposed: string;
+  /** Offsets from startLine of the lines being removed / added */
+  removed: number[];
+  added: number[];
+  /** False when the file no longer parses with the proposal applied */
+  parses: boolean;
+  /** Set while the region is rewritten by us, so the change is not taken for a user edit */
+  applying: boolean;
+}
+
+/**
+ * Edit-in-place: the user selects code and types an instruction; the model's
+ * replacement is merged into the editor as an inline diff (removed lines in
+ * red, added lines in green) until it is accepted or rejected with a
+ * keystroke. The prompt carries the ASTParser context of the surrounding
+ * function, and a proposal that breaks the parse needs confirming. The merged
+ * diff never reaches the disk: saving, or editing the region, rejects the
+ * proposal and puts the original code back.
+ */
+export class InlineEditController {
+  private sessions = new Map<string, InlineEditSession>();
+
+  private readonly removedDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: new vscode.ThemeColor("diffEditor.removedLineBackground"),
+    textDecoration: "line-through",
+    opacity: "0.7",
+  });
+  private readonly addedDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: new vscode.ThemeColor("diffEditor.insertedLineBackground"),
+  });
+  private readonly hintDecoration = vscode.window.createTextEditorDecorationType({});
+
+  constructor(private readonly parser: ASTParser) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this.removedDecoration,
+      this.addedDecoration,
+      this.hintDecoration,
+      vscode.commands.registerCommand("aiDevAssistant.inlineEdit", () => this.start()),
+      vscode.commands.registerCommand("aiDevAssistant.acceptInlineEdit", () => this.accept()),
+      vscode.commands.registerCommand("aiDevAssistant.rejectInlineEdit", () => this.reject()),
+      vscode.workspace.onDidChangeTextDocument((e) => this.onDocumentChanged(e)),
+      vscode.workspace.onWillSaveTextDocument((e) => this.onWillSave(e)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.sessions.delete(document.uri.toString())),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.render()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateContextKey())
+    );
+  }
+
+  private async start(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage("No active editor");
+      return;
+    }
+
+    const document = editor.document;
+    if (warnIfExcluded(document.uri)) {
+      return;
+    }
+    if (this.sessions.has(document.uri.toString())) {
+      vscode.window.showWarningMessage("Accept or reject the pending AI edit in this file first.");
+      return;
+    }
+    const analysis = this.parser.parseFile(document.getText(), document.languageId);
+
+    // Without a selection, edit the function at the cursor
+    let selection: vscode.Range = editor.selection;
+    if (editor.selection.isEmpty) {
+      const line = editor.selection.active.line + 1;
+      const func = analysis?.functions.filter((f) => line >= f.lineStart && line <= f.lineEnd).pop();
+      if (!func) {
+        vscode.window.showWarningMessage("Select the code to edit, or place the cursor inside a function");
+        return;
+      }
+      const lastLine = document.lineAt(func.lineEnd - 1);
+      selection = new vscode.Range(func.lineStart - 1, 0, lastLine.lineNumber, lastLine.text.length);
+    }
+
+    const instruction = await vscode.window.showInputBox({
+      title: "Edit with AI",
+      prompt: "How should the selected code change?",
+      placeHolder: "e.g. add input validation, convert to async/await, handle the empty case",
+      ignoreFocusOut: true,
+    });
+    if (!instruction?.trim()) {
+      return;
+    }
+
+    // The diff region covers whole lines; a selection ending at the start of
+    // a line does not include that line
+    const startLine = selection.start.line;
+    const endLine =
+      selection.end.character === 0 && selection.end.line > startLine ? selection.end.line - 1 : selection.end.line;
+    const region = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    const original = document.getText(region);
+    const before = document.lineAt(startLine).text.slice(0, selection.start.character);
+    const after = selection.end.line > endLine ? "" : document.lineAt(endLine).text.slice(selection.end.character);
+    // Whole lines are sent with their indentation; part of a line as selected
+    const wholeLines = !before.trim() && !after.trim();
+    const selected = wholeLines ? original : document.getText(selection);
+
+    const prompt = this.buildPrompt(document, analysis, startLine + 1, endLine + 1, selected, instruction.trim());
+    const version = document.version;
+
+    const response = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Editing with AI...", cancellable: true },
+      (_progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+        return askLLM(prompt, { signal: abortController.signal, command: "inline edit" }).then((text) =>
+          abortController.signal.aborted ? undefined : text
+        );
+      }
+    );
+    if (response === undefined) {
+      return;
+    }
+    if (response.startsWith("❌")) {
+      vscode.window.showErrorMessage(`Inline edit failed: ${response}`);
+      return;
+    }
+    if (document.version !== version) {
+      vscode.window.showWarningMessage("The file changed while the AI was working; run the edit again.");
+      return;
+    }
+
+    const replacement = stripCodeFences(response).replace(/\s+$/, "");
+    const proposed = wholeLines
+      ? reindent(replacement, original)
+      : before + replacement + after;
+    if (proposed === original) {
+      vscode.window.showInformationMessage("The AI suggested no changes.");
+      return;
+    }
+
+    await this.showProposal(document, startLine, original, proposed);
+  }
+
+  private buildPrompt(
+    document: vscode.TextDocument,
+    analysis: FileAnalysis | null,
+    startLine: number,
+    endLine: number,
+    selected: string,
+    instruction: string
+  ): string {
+    const language = getLanguage(document.languageId)?.displayName ?? document.languageId;
+
+    // Innermost function around the selection, as the parser sees it
+    const enclosing = analysis?.functions
+      .filter((f) => f.lineStart <= startLine && f.lineEnd >= endLine)
+      .sort((a, b) => a.lineEnd - a.lineStart - (b.lineEnd - b.lineStart))[0];
+
+    const context = analysis
+      ? buildContext([
+          ...(enclosing
+            ? [
+                {
+                  label: `Surrounding function ${enclosing.name}`,
+                  section: `Surrounding function (${enclosing.signature})`,
+                  content: document.getText(
+                    new vscode.Range(enclosing.lineStart - 1, 0, enclosing.lineEnd, 0)
+                  ),
+                  fence: analysis.language,
+                  priority: 90,
+                  truncate: "code" as const,
+                },
+              ]
+            : []),
+          {
+            label: "Imports",
+            section: "Imports",
+            content: analysis.imports.join("\n") || "None",
+            priority: 30,
+            truncate: "list" as const,
+          },
+          {
+            label: "Other functions in file",
+            section: "Other functions in this file",
+            content:
+              analysis.functions
+                .filter((f) => f !== enclosing)
+                .map((f) => `- ${f.signature}`)
+                .join("\n") || "None",
+            priority: 20,
+            truncate: "list" as const,
+          },
+        ])
+      : undefined;
+
+    return `
+Rewrite the selected ${language} code from ${path.basename(document.fileName)} (lines ${startLine}-${endLine}) as instructed.
+
+Instruction: ${instruction}
+
+${context?.text ?? ""}
+Selected code:
+\`\`\`${document.languageId}
+${selected}
+\`\`\`
+
+Return ONLY the code that replaces the selection, in one code block, with the same indentation.
+Do not repeat code outside the selection and do not add explanations.
+`;
+  }
+
+  /** Merge original and proposed lines into the editor and decorate them as a diff. */
+  private async showProposal(
+    document: vscode.TextDocument,
+    startLine: number,
+    original: string,
+    proposed: string
+  ): Promise<void> {
+    const originalLines = splitLines(original);
+    const proposedLines = splitLines(proposed);
+    const merged: string[] = [];
+    const removed: number[] = [];
+    const added: number[] = [];
+
+    let next = 0;
+    for (const hunk of computeHunks(originalLines, proposedLines)) {
+      merged.push(...originalLines.slice(next, hunk.originalStart));
+      for (const line of originalLines.slice(hunk.originalStart, hunk.originalStart + hunk.originalLength)) {
+        removed.push(merged.length);
+        merged.push(line);
+      }
+      for (const line of proposedLines.slice(hunk.proposedStart, hunk.proposedStart + hunk.proposedLength)) {
+        added.push(merged.length);
+        merged.push(line);
+      }
+      next = hunk.originalStart + hunk.originalLength;
+    }
+    merged.push(...originalLines.slice(next));
+
+    // Check the proposal the way it would end up in the file
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const text = document.getText();
+    const regionStart = document.offsetAt(new vscode.Position(startLine, 0));
+    const regionEnd = regionStart + original.length;
+    const originalTree = this.parser.parseTree(text, document.languageId);
+    const proposedTree = this.parser.parseTree(
+      text.slice(0, regionStart) + proposed + text.slice(regionEnd),
+      document.languageId
+    );
+    const parses = !proposedTree?.rootNode.hasError || !!originalTree?.rootNode.hasError;
+
+    const session: InlineEditSession = {
+      document,
+      startLine,
+      lineCount: originalLines.length,
+      original,
+      proposed,
+      removed,
+      added,
+      parses,
+      applying: false,
+    };
+    this.sessions.set(document.uri.toString(), session);
+
+    await this.replaceRegion(session, merged.join(eol));
+    session.lineCount = merged.length;
+    this.render();
+    this.updateContextKey();
+
+    if (!parses) {
+      vscode.window.showWarningMessage("The AI's edit does not parse. Review it carefully before accepting.");
+    }
+  }
+
+  private async accept(): Promise<void> {
+    const session = this.activeSession();
+    if (!session) {
+      return;
+    }
+
+    if (!session.parses) {
+      const choice = await vscode.window.showWarningMessage(
+        "The edited code does not parse. Accept it anyway?",
+        { modal: true },
+        "Accept Anyway"
+      );
+      if (choice !== "Accept Anyway") {
+        return;
+      }
+    }
+
+    await this.finish(session, session.proposed);
+  }
+
+  private async reject(): Promise<void> {
+    const session = this.activeSession();
+    if (session) {
+      await this.finish(session, session.original);
+    }
+  }
+
+  private async finish(session: InlineEditSession, text: string): Promise<void> {
+    await this.replaceRegion(session, text);
+    this.sessions.delete(session.document.uri.toString());
+    this.render();
+    this.updateContextKey();
+  }
+
+  /** Replace the session's region (whole lines, without the final line break) with `text`. */
+  private async replaceRegion(session: InlineEditSession, text: string): Promise<void> {
+    const { document, startLine, lineCount } = session;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, regionRange(document, startLine, lineCount), withEol(document, text));
+
+    session.applying = true;
+    try {
+      await vscode.workspace.applyEdit(edit);
+    } finally {
+      session.applying = false;
+    }
+  }
+
+  /**
+   * Edits above the region move it; edits inside it end the session, since
+   * the region no longer holds the diff we put there. The region then goes
+   * back to the original code, so the merged old and new lines are not left
+   * in the file.
+   */
+  private onDocumentChanged(e: vscode.TextDocumentChangeEvent): void {
+    const session = this.sessions.get(e.document.uri.toString());
+    if (!session || session.applying || e.contentChanges.length === 0) {
+      return;
+    }
+
+    const endLine = session.startLine + session.lineCount - 1;
+    let shift = 0;
+    let growth = 0;
+    let touched = false;
+    let contained = true;
+    for (const change of e.contentChanges) {
+      if (change.range.start.line > endLine) continue;
+
+      const lines = change.text.split("\n").length - 1 - (change.range.end.line - change.range.start.line);
+      if (change.range.end.line < session.startLine) {
+        shift += lines;
+        continue;
+      }
+      touched = true;
+      growth += lines;
+      contained &&= change.range.start.line >= session.startLine && change.range.end.line <= endLine;
+    }
+    session.startLine += shift;
+
+    if (touched) {
+      this.sessions.delete(e.document.uri.toString());
+      // A change reaching outside the region leaves no way to tell where the
+      // region now ends, so it is left to Undo
+      if (contained) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+          e.document.uri,
+          regionRange(e.document, session.startLine, session.lineCount + growth),
+          withEol(e.document, session.original)
+        );
+        vscode.workspace.applyEdit(edit);
+      }
+      vscode.window.showWarningMessage(
+        contained
+          ? "Inline AI edit cancelled because the code under review changed; the original code was restored."
+          : "Inline AI edit cancelled because the code under review changed. Use Undo to get the original back."
+      );
+    }
+    this.render();
+    this.updateContextKey();
+  }
+
+  /** Reject a pending proposal before its merged diff is written to disk. */
+  private onWillSave(e: vscode.TextDocumentWillSaveEvent): void {
+    const session = this.sessions.get(e.document.uri.toString());
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(e.document.uri.toString());
+    e.waitUntil(
+      Promise.resolve([
+        vscode.TextEdit.replace(
+          regionRange(e.document, session.startLine, session.lineCount),
+          withEol(e.document, session.original)
+        ),
+      ])
+    );
+    this.render();
+    this.updateContextKey();
+    vscode.window.showWarningMessage(
+      "Inline AI edit rejected because the file was saved; accept it before saving to keep it."
+    );
+  }
+
+  private render(): void {
+    const keys = process.platform === "darwin" ? "Cmd+Enter" : "Ctrl+Enter";
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      const session = this.sessions.get(editor.document.uri.toString());
+      if (!session) {
+        editor.setDecorations(this.removedDecoration, []);
+        editor.setDecorations(this.addedDecoration, []);
+        editor.setDecorations(this.hintDecoration, []);
+        continue;
+      }
+
+      const lineRange = (offset: number) => {
+        const line = session.startLine + offset;
+        return new vscode.Range(line, 0, line, 0);
+      };
+      editor.setDecorations(this.removedDecoration, session.removed.map(lineRange));
+      editor.setDecorations(this.addedDecoration, session.added.map(lineRange));
+
+      const firstLine = editor.document.lineAt(session.startLine);
+      editor.setDecorations(this.hintDecoration, [
+        {
+          range: new vscode.Range(firstLine.range.end, firstLine.range.end),
+          renderOptions: {
+            after: {
+              contentText: `${session.parses ? "" : "  ⚠ does not parse ·"}  ${keys} accept · Esc reject`,
+              color: new vscode.ThemeColor(session.parses ? "editorCodeLens.foreground" : "editorWarning.foreground"),
+              fontStyle: "italic",
+            },
+          },
+        },
+      ]);
+    }
+  }
+
+  private activeSession(): InlineEditSession | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    return uri ? this.sessions.get(uri.toString()) : undefined;
+  }
+
+  private updateContextKey(): void {
+    vscode.commands.executeCommand("setContext", PENDING_CONTEXT_KEY, !!this.activeSession());
+  }
+}
+
+/** Whole lines `startLine`..`startLine + lineCount - 1`, without the final line break. */
+function regionRange(document: vscode.TextDocument, startLine: number, lineCount: number): vscode.Range {
+  const endLine = Math.min(startLine + lineCount, document.lineCount) - 1;
+  return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+}
+
+function withEol(document: vscode.TextDocument, text: string): string {
+  return text.replace(/\r?\n/g, document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n");
+}
+
+/**
+ * Give `code` the indentation of `original` when the model dropped it, e.g.
+ * a method body returned starting at column 0.
+ */
+function reindent(code: string, original: string): string {
+  const indentOf = (text: string) =>
+    splitLines(text)
+      .filter((line) => line.trim())
+      .reduce<string | undefined>((min, line) => {
+        const indent = line.match(/^\s*/)![0];
+        return min === undefined || indent.length < min.length ? indent : min;
+      }, undefined) ?? "";
+
+  const target = indentOf(original);
+  if (!target || indentOf(code)) {
+    return code;
+  }
+  return splitLines(code)
+    .map((line) => (line.trim() ? target + line : line))
+    .join("\n");
+}
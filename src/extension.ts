@@ -1,14 +1,73 @@
 import * as vscode from "vscode";
 import { ChatViewProvider } from "./ChatViewProvider";
-import { CodebaseIndexer } from "./codeAnalysis/codebaseIndexer";
+import { CodebaseIndexer, FunctionLocation } from "./codeAnalysis/codebaseIndexer";
 import { extractCurrentFunctionMetadata } from "./codeAnalysis/metadataExtractor";
-import { askLLM } from "./aiService";
+import { askLLM, clearResponseCache } from "./aiService";
+import { DiffReviewManager } from "./diff/diffReviewManager";
+import { resolveWorkspaceFile } from "./workspaceFiles";
+import { runCommandWithApproval } from "./commandRunner";
+import { applyPlannedEdit, planSuggestionEdit } from "./editing/editApplier";
+import { ASTParser } from "./codeAnalysis/astParser";
+import { SemanticSearch } from "./search/semanticSearch";
+import { buildContext } from "./context/contextBuilder";
+import { stripCodeFences } from "./editing/codeBlocks";
+import { detectTestSetup } from "./testing/testFramework";
+import { listTests, mergeTestCode } from "./testing/testMerger";
+import { formatTestReport, getTestRunConfig, runAndRepairTests } from "./testing/testRunner";
+import { FunctionActionsProvider, revealFunction } from "./codeLens/functionActionsProvider";
+import { HotspotsTreeProvider } from "./complexity/hotspots";
+import { ComplexityDiagnostics } from "./complexity/complexityDiagnostics";
+import { PromptTemplates } from "./prompts/promptTemplates";
+import { InlineEditController } from "./editing/inlineEdit";
+import { ChangeReviewer } from "./review/changeReviewer";
+import { DocCommentGenerator } from "./docs/docGenerator";
+import { UsageTracker } from "./usage/usageTracker";
+import { PayloadPreview } from "./privacy/payloadPreview";
+import { warnIfExcluded } from "./privacy/excludedFiles";
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("AI Dev Assistant activated");
 
+  // Token usage of every request, with budgets; global so budgets span workspaces
+  new UsageTracker(context.globalStorageUri).register(context);
+
+  // Optional look at each outgoing request (secrets already masked) before it is sent
+  new PayloadPreview().register(context);
+
+  // One long-lived codebase index, persisted in workspace storage and kept
+  // current by a file watcher
+  const indexer = new CodebaseIndexer(context.storageUri);
+  context.subscriptions.push(indexer);
+
+  if (vscode.workspace.getConfiguration("aiDevAssistant").get<boolean>("index.autoIndex", true)) {
+    vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: "AI Dev Assistant: indexing" },
+      () =>
+        indexer.initialize().catch((err) => {
+          console.error("Initial indexing failed:", err);
+        })
+    );
+  }
+
+  // Natural-language search over the indexed functions (chat + quick pick)
+  const semanticSearch = new SemanticSearch(indexer);
+
+  // Slash commands for the chat: built-ins plus the workspace's templates file
+  const promptTemplates = new PromptTemplates();
+  promptTemplates.register(context);
+
   // Initialize Chat Webview Provider
-  const chatProvider = new ChatViewProvider(context.extensionUri, true);
+  const chatProvider = new ChatViewProvider(
+    context.extensionUri,
+    vscode.workspace.isTrusted,
+    indexer,
+    semanticSearch,
+    promptTemplates
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidGrantWorkspaceTrust(() => chatProvider.setTrusted(true))
+  );
 
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(
@@ -20,12 +79,91 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Diff review for AI suggestions (virtual documents + per-hunk accept/reject)
+  const astParser = new ASTParser();
+  const diffReview = new DiffReviewManager();
+  diffReview.register(context);
+
+  // Explain / Generate Test / Review / Document above every function
+  new FunctionActionsProvider(astParser, chatProvider).register(context);
+
+  // Most complex functions from the index, plus optional Problems entries
+  new HotspotsTreeProvider(indexer).register(context);
+  new ComplexityDiagnostics(indexer).register(context);
+
+  // Edit a selection in place, shown as an inline diff until accepted
+  new InlineEditController(astParser).register(context);
+
+  // AI review of the uncommitted git diff, as comments on the changed lines
+  new ChangeReviewer(astParser).register(context);
+
+  // Doc comments from the parser's metadata, previewed in the diff review
+  new DocCommentGenerator(astParser, diffReview).register(context);
+
+  const showDiffCommand = vscode.commands.registerCommand(
+    "aiDevAssistant.showDiff",
+    async (original?: string, suggested?: string, fileName?: string) => {
+      if (suggested === undefined) {
+        vscode.window.showWarningMessage(
+          "Use the \"Show Diff\" button on a code block in the chat to review a suggestion."
+        );
+        return;
+      }
+
+      const activeUri = vscode.window.activeTextEditor?.document.uri;
+      const targetUri =
+        (await resolveWorkspaceFile(fileName)) ??
+        (activeUri?.scheme === "file" ? activeUri : undefined);
+
+      if (targetUri) {
+        // A single-function snippet is compared against that function only
+        const document = await vscode.workspace.openTextDocument(targetUri);
+        const planned = planSuggestionEdit(document, suggested, astParser);
+        await diffReview.openReview(targetUri, applyPlannedEdit(document, planned));
+        return;
+      }
+
+      if (original !== undefined) {
+        // No file to apply to: show a read-only comparison
+        const left = await vscode.workspace.openTextDocument({ content: original });
+        const right = await vscode.workspace.openTextDocument({ content: suggested });
+        await vscode.commands.executeCommand("vscode.diff", left.uri, right.uri, "Original ↔ AI Suggestion");
+        return;
+      }
+
+      vscode.window.showErrorMessage("Open the file you want to compare the suggestion with.");
+    }
+  );
+
+  // Run a (suggested) terminal command after confirmation; returns the
+  // captured result so the chat can show it
+  const runCommand = vscode.commands.registerCommand(
+    "aiDevAssistant.runCommand",
+    async (command?: string) => {
+      const toRun =
+        command ??
+        (await vscode.window.showInputBox({
+          prompt: "Command to run in the workspace folder",
+          ignoreFocusOut: true,
+        }));
+      if (!toRun?.trim()) {
+        return undefined;
+      }
+
+      return runCommandWithApproval(toRun.trim(), vscode.workspace.isTrusted);
+    }
+  );
+
+  // Drop cached answers, e.g. after changing the backend's system prompt
+  const clearCacheCommand = vscode.commands.registerCommand("aiDevAssistant.clearResponseCache", () => {
+    const count = clearResponseCache();
+    vscode.window.showInformationMessage(`Cleared ${count} cached AI response(s).`);
+  });
+
   // Register Command: Index Codebase
   const indexCommand = vscode.commands.registerCommand(
     "aiDevAssistant.indexCodebase",
     async () => {
-      const indexer = new CodebaseIndexer();
-
       if (!vscode.workspace.workspaceFolders) {
         vscode.window.showErrorMessage("Open a folder or workspace first.");
         return;
@@ -39,7 +177,7 @@ export function activate(context: vscode.ExtensionContext) {
         },
         async () => {
           try {
-            const index = await indexer.indexWorkspace();
+            const index = await indexer.initialize(true);
             vscode.window.showInformationMessage(
               `Indexed ${index.totalFunctions} functions across ${index.files.size} files.`
             );
@@ -52,15 +190,119 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Callers / callees of the function at the cursor, from the workspace call graph
+  const callGraphCommand = vscode.commands.registerCommand(
+    "aiDevAssistant.showCallGraph",
+    async (functionName?: string) => {
+      const metadata = functionName ? null : await extractCurrentFunctionMetadata();
+      const name =
+        functionName ??
+        metadata?.function?.name ??
+        (await vscode.window.showInputBox({ prompt: "Function name" }));
+      if (!name) {
+        return;
+      }
+
+      await indexer.initialize();
+      const callers = indexer.getCallers(name);
+      const callees = indexer.getCallees(name, metadata?.fileName);
+
+      const toItem = (location: FunctionLocation) => ({
+        label: location.func.name,
+        description: `${vscode.workspace.asRelativePath(location.filePath)}:${location.func.lineStart}`,
+        detail: location.func.signature,
+        location,
+      });
+
+      const picked = await vscode.window.showQuickPick<
+        vscode.QuickPickItem & { location?: FunctionLocation }
+      >(
+        [
+          { label: `Callers of ${name}`, kind: vscode.QuickPickItemKind.Separator },
+          ...callers.map(toItem),
+          { label: `Called by ${name}`, kind: vscode.QuickPickItemKind.Separator },
+          ...callees.map(toItem),
+        ],
+        {
+          placeHolder: `${callers.length} caller(s), ${callees.length} callee(s) of ${name}`,
+          matchOnDescription: true,
+        }
+      );
+
+      if (picked?.location) {
+        const doc = await vscode.workspace.openTextDocument(picked.location.filePath);
+        const line = picked.location.func.lineStart - 1;
+        await vscode.window.showTextDocument(doc, {
+          selection: new vscode.Range(line, 0, line, 0),
+        });
+      }
+    }
+  );
+
+  // Find functions by describing them, e.g. "where do we validate JWTs?"
+  const searchCommand = vscode.commands.registerCommand(
+    "aiDevAssistant.searchCode",
+    async (query?: string) => {
+      const text =
+        query ??
+        (await vscode.window.showInputBox({
+          prompt: "Describe the code you are looking for",
+          placeHolder: "e.g. where do we validate JWTs?",
+        }));
+      if (!text) {
+        return;
+      }
+
+      const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: "AI Dev Assistant: searching" },
+        async () => {
+          await indexer.initialize();
+          return semanticSearch.search(text, 20);
+        }
+      );
+
+      if (results.length === 0) {
+        vscode.window.showInformationMessage(`No functions found for "${text}".`);
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        results.map(({ chunk, score }) => ({
+          label: `$(symbol-method) ${chunk.func.name}`,
+          description: `${vscode.workspace.asRelativePath(chunk.filePath)}:${chunk.func.lineStart}  ${Math.round(score * 100)}%`,
+          detail: chunk.func.signature,
+          chunk,
+        })),
+        { placeHolder: `Results for "${text}"`, matchOnDescription: true, matchOnDetail: true }
+      );
+
+      if (picked) {
+        const doc = await vscode.workspace.openTextDocument(picked.chunk.filePath);
+        const line = picked.chunk.func.lineStart - 1;
+        await vscode.window.showTextDocument(doc, {
+          selection: new vscode.Range(line, 0, line, 0),
+        });
+      }
+    }
+  );
+
   // 🔥 NEW: Generate Unit Test Command
+  // From a CodeLens it gets the file and 0-based line of the function
   const generateTestCommand = vscode.commands.registerCommand(
     "aiDevAssistant.generateTest",
-    async () => {
+    async (uri?: vscode.Uri, line?: number) => {
+      if (uri instanceof vscode.Uri && typeof line === "number") {
+        await revealFunction(uri, line);
+      }
+
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         vscode.window.showErrorMessage("No active editor");
         return;
       }
+      if (warnIfExcluded(editor.document.uri)) {
+        return;
+      }
 
       await vscode.window.withProgress(
         {
@@ -68,7 +310,7 @@ export function activate(context: vscode.ExtensionContext) {
           title: "Generating unit test...",
           cancellable: false,
         },
-        async () => {
+        async (progress) => {
           try {
             // Extract metadata using Tree-sitter
             const metadata = await extractCurrentFunctionMetadata();
@@ -84,73 +326,162 @@ export function activate(context: vscode.ExtensionContext) {
             const analysis = metadata.fileAnalysis;
 
             // Build smart prompt with AST context
+            // The function itself comes first; the rest of the file fills
+            // whatever is left of the context budget
+            const otherFunctions = analysis.functions.filter((f) => f.name !== func.name);
+            const testContext = buildContext([
+              {
+                label: `Code of ${func.name}`,
+                section: "Function Code",
+                content: extractFunctionCode(editor.document, func.lineStart, func.lineEnd),
+                fence: analysis.language,
+                priority: 100,
+                truncate: "code",
+              },
+              {
+                label: "Other functions in file",
+                section: "Context - Other functions in this file",
+                content: otherFunctions.map((f) => `- ${f.signature}`).join("\n") || "None",
+                priority: 30,
+                truncate: "list",
+              },
+              {
+                label: "Classes",
+                content: `Classes: ${analysis.classes.join(", ") || "None"}`,
+                priority: 20,
+              },
+              {
+                label: "Imports",
+                section: "Imports",
+                content: analysis.imports.join("\n") || "None",
+                priority: 25,
+                truncate: "list",
+              },
+            ]);
+
+            // Framework and test location follow the project's own setup
+            const setup = await detectTestSetup(metadata.fileName, analysis.language);
+            const testUri = vscode.Uri.file(setup.testFilePath);
+            const relativeTestPath = vscode.workspace.asRelativePath(testUri);
+            const existingTests = await readExistingFile(testUri);
+
+            // For an existing file, show what it already has so only new
+            // tests come back
+            let existingInfo = "";
+            if (existingTests !== undefined) {
+              const existingAnalysis = astParser.parseFile(existingTests, analysis.language);
+              const existingNames = listTests(existingTests, analysis.language, astParser);
+              existingInfo = `
+The test file ${relativeTestPath} already exists.
+Its imports:
+${existingAnalysis?.imports.join("\n") || "None"}
+
+Tests it already has (do not repeat them):
+${existingNames.map((name) => `- ${name}`).join("\n") || "None"}
+
+Return a test file containing only the NEW tests and the imports they need,
+using the same suite/class names as the existing file so they can be merged.
+`;
+            }
+
             const testPrompt = `
 Generate a comprehensive unit test for the following function:
 
 File: ${metadata.fileName}
 Language: ${analysis.language}
+Test file: ${relativeTestPath}
 
 Function Details:
 - Name: ${func.name}
 - Signature: ${func.signature}
 - Parameters: ${func.params.map((p) => `${p.name}: ${p.type}`).join(", ")}
 - Return Type: ${func.returnType}
-- Complexity: ${func.complexity}
+- Complexity: cyclomatic ${func.complexity}, cognitive ${func.cognitiveComplexity}
 - Visibility: ${func.visibility}
 
-Function Code:
-\`\`\`${analysis.language}
-${extractFunctionCode(editor.document, func.lineStart, func.lineEnd)}
-\`\`\`
-
-Context - Other functions in this file:
-${analysis.functions
-  .filter((f) => f.name !== func.name)
-  .slice(0, 3)
-  .map((f) => `- ${f.signature}`)
-  .join("\n")}
-
-Classes: ${analysis.classes.join(", ") || "None"}
-
-Imports:
-${analysis.imports.slice(0, 5).join("\n") || "None"}
-
+${testContext.text}${existingInfo}
 Requirements:
 1. Generate a complete, runnable unit test
 2. Cover edge cases, normal cases, and error cases
 3. Include setup/teardown if needed
-4. Use appropriate testing framework for ${analysis.language}
+4. Use ${setup.framework ?? `an appropriate testing framework for ${analysis.language}`}
 5. Add clear test descriptions
 6. Mock dependencies if necessary
+7. Import the code under test relative to ${relativeTestPath}
 
 Generate ONLY the test code, no explanations.
 `;
 
-            const testCode = await askLLM(testPrompt);
-
-            // Create new test file
-            const testFileName = getTestFileName(metadata.fileName, analysis.language);
-            const testUri = vscode.Uri.file(
-              editor.document.uri.fsPath.replace(
-                metadata.fileName,
-                testFileName
-              )
-            );
+            const response = await askLLM(testPrompt, { command: "test generation" });
+            if (response.startsWith("❌")) {
+              vscode.window.showErrorMessage(`Test generation failed: ${response}`);
+              return;
+            }
+            const testCode = stripCodeFences(response);
 
             const edit = new vscode.WorkspaceEdit();
-            edit.createFile(testUri, { ignoreIfExists: true });
-            edit.insert(testUri, new vscode.Position(0, 0), testCode);
+            let summary: string;
 
-            const success = await vscode.workspace.applyEdit(edit);
+            if (existingTests === undefined) {
+              edit.createFile(testUri, { ignoreIfExists: true });
+              edit.insert(testUri, new vscode.Position(0, 0), testCode);
+              summary = `✅ Generated test for ${func.name}() in ${relativeTestPath}`;
+            } else {
+              const merged = mergeTestCode(existingTests, testCode, analysis.language, astParser);
+              if (!merged.appended && merged.added.length === 0) {
+                vscode.window.showInformationMessage(
+                  `${relativeTestPath} already has the generated tests for ${func.name}()`
+                );
+                return;
+              }
 
-            if (success) {
-              const doc = await vscode.workspace.openTextDocument(testUri);
-              await vscode.window.showTextDocument(doc);
-              vscode.window.showInformationMessage(
-                `✅ Generated test for ${func.name}()`
+              const testDoc = await vscode.workspace.openTextDocument(testUri);
+              edit.replace(
+                testUri,
+                new vscode.Range(testDoc.positionAt(0), testDoc.positionAt(testDoc.getText().length)),
+                merged.code
               );
-            } else {
+              summary = merged.appended
+                ? `⚠️ Could not parse ${relativeTestPath}; the new tests were appended at the end`
+                : `✅ Added ${merged.added.length} item(s) to ${relativeTestPath}` +
+                  (merged.skipped.length ? `, skipped ${merged.skipped.length} already present` : "");
+            }
+
+            const success = await vscode.workspace.applyEdit(edit);
+
+            if (!success) {
               vscode.window.showErrorMessage("Failed to create test file");
+              return;
+            }
+
+            const doc = await vscode.workspace.openTextDocument(testUri);
+            await vscode.window.showTextDocument(doc);
+            vscode.window.showInformationMessage(summary);
+
+            // Optionally run the new tests and let the model fix failures
+            const { runAfterGenerate, maxRepairAttempts } = getTestRunConfig();
+            if (runAfterGenerate && setup.testCommand) {
+              const report = await runAndRepairTests({
+                setup: { ...setup, testCommand: setup.testCommand },
+                testUri,
+                languageId: analysis.language,
+                functionName: func.name,
+                functionCode: extractFunctionCode(editor.document, func.lineStart, func.lineEnd),
+                sourcePath: metadata.fileName,
+                parser: astParser,
+                maxAttempts: maxRepairAttempts,
+                progress,
+              });
+              if (report) {
+                await chatProvider.showReport(
+                  formatTestReport(report, func.name, relativeTestPath),
+                  !report.passed
+                );
+              }
+            } else if (runAfterGenerate) {
+              vscode.window.showWarningMessage(
+                `No test command known for ${relativeTestPath}; run it manually.`
+              );
             }
           } catch (err: any) {
             vscode.window.showErrorMessage(`Test generation failed: ${err.message}`);
@@ -161,7 +492,26 @@ Generate ONLY the test code, no explanations.
     }
   );
 
-  context.subscriptions.push(indexCommand, generateTestCommand);
+  context.subscriptions.push(
+    showDiffCommand,
+    runCommand,
+    clearCacheCommand,
+    indexCommand,
+    callGraphCommand,
+    searchCommand,
+    generateTestCommand
+  );
+}
+
+/** Text of a file (from the editor if it is open), or undefined if it does not exist. */
+async function readExistingFile(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    return undefined;
+  }
+  const document = await vscode.workspace.openTextDocument(uri);
+  return document.getText();
 }
 
 function extractFunctionCode(
@@ -176,25 +526,6 @@ function extractFunctionCode(
   return lines.join("\n");
 }
 
-function getTestFileName(fileName: string, language: string): string {
-  const nameWithoutExt = fileName.replace(/\.[^/.]+$/, "");
-  
-  switch (language) {
-    case "java":
-      return `${nameWithoutExt}Test.java`;
-    case "javascript":
-    case "javascriptreact":
-      return `${nameWithoutExt}.test.js`;
-    case "typescript":
-    case "typescriptreact":
-      return `${nameWithoutExt}.test.ts`;
-    case "python":
-      return `test_${nameWithoutExt}.py`;
-    default:
-      return `${nameWithoutExt}.test.${language}`;
-  }
-}
-
 export function deactivate() {
   console.log("AI Dev Assistant deactivated");
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+
+function getExcludedGlobs(): string[] {
+  return vscode.workspace.getConfiguration("aiDevAssistant").get<string[]>("privacy.excludedFiles") ?? [];
+}
+
+/**
+ * Whether a file must never be sent to the backend, per
+ * aiDevAssistant.privacy.excludedFiles. Globs match the workspace-relative
+ * path like .gitignore entries: a glob without "/" matches a file or folder
+ * name anywhere, and everything inside an excluded folder is excluded too.
+ */
+export function isExcludedFromAI(file: vscode.Uri | string): boolean {
+  const fsPath = typeof file === "string" ? file : file.fsPath;
+  const relative = vscode.workspace.asRelativePath(fsPath, false).replace(/\\/g, "/");
+  return getExcludedGlobs().some((glob) => matchesGlob(relative, glob));
+}
+
+/** Tell the user why nothing happens when a command is run on an excluded file. */
+export function warnIfExcluded(file: vscode.Uri): boolean {
+  if (!isExcludedFromAI(file)) {
+    return false;
+  }
+  vscode.window.showWarningMessage(
+    `${vscode.workspace.asRelativePath(file)} is excluded from AI requests (aiDevAssistant.privacy.excludedFiles).`
+  );
+  return true;
+}
+
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/$/, "");
+  if (!pattern) {
+    return false;
+  }
+  const regex = new RegExp(`^${globToRegExp(pattern.includes("/") ? pattern : `**/${pattern}`)}$`);
+
+  // The file itself or any folder it is in
+  const segments = relativePath.split("/");
+  return segments.some((_, i) => regex.test(segments.slice(0, i + 1).join("/")));
+}
+
+/** Regular expression source for `*`, `**`, `?` and `{a,b}` globs. */
+function globToRegExp(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no folder at all
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(globToRegExp).join("|")})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
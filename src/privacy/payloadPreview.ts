@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import { OutgoingRequest, PayloadReviewer, setPayloadReviewer } from "../aiService";
+
+const PREVIEW_SCHEME = "ai-payload";
+// Previews kept for documents that are still open
+const MAX_PREVIEWS = 10;
+
+function isPreviewEnabled(): boolean {
+  return vscode.workspace.getConfiguration("aiDevAssistant").get<boolean>("privacy.previewRequests") ?? false;
+}
+
+/**
+ * "Show me exactly what will be sent": with aiDevAssistant.privacy.previewRequests
+ * on, every request opens read-only (after secrets were masked) and is only
+ * sent once the user clicks Send. Requests made meanwhile wait their turn.
+ */
+export class PayloadPreview
+  implements PayloadReviewer, vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  private previews = new Map<string, string>();
+  private count = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this,
+      vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this),
+      vscode.commands.registerCommand("aiDevAssistant.togglePayloadPreview", async () => {
+        const enabled = !isPreviewEnabled();
+        await vscode.workspace
+          .getConfiguration("aiDevAssistant")
+          .update("privacy.previewRequests", enabled, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(
+          enabled
+            ? "AI requests are now shown for approval before they are sent."
+            : "AI requests are sent without a preview."
+        );
+      })
+    );
+    setPayloadReviewer(this);
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.previews.get(uri.path) ?? "This preview is no longer available.";
+  }
+
+  public approve(request: OutgoingRequest): Promise<boolean> {
+    if (!isPreviewEnabled()) {
+      return Promise.resolve(true);
+    }
+    const decision = this.queue.then(() => this.ask(request));
+    this.queue = decision.catch(() => undefined);
+    return decision;
+  }
+
+  private async ask(request: OutgoingRequest): Promise<boolean> {
+    const path = `/request-${++this.count}.txt`;
+    this.previews.set(path, renderPayload(request));
+    this.previews.delete(`/request-${this.count - MAX_PREVIEWS}.txt`);
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.from({ scheme: PREVIEW_SCHEME, path }));
+    await vscode.window.showTextDocument(document, {
+      preview: true,
+      preserveFocus: true,
+      viewColumn: vscode.ViewColumn.Beside,
+    });
+
+    const masked = request.redacted.length > 0 ? ` ${request.redacted.length} secret(s) were masked.` : "";
+    const choice = await vscode.window.showWarningMessage(
+      `Send this ${request.command} request to ${request.provider} (${request.model})?${masked}`,
+      "Send",
+      "Don't Send"
+    );
+    return choice === "Send";
+  }
+
+  public dispose(): void {
+    setPayloadReviewer(undefined);
+  }
+}
+
+function renderPayload(request: OutgoingRequest): string {
+  const kinds = [...new Set(request.redacted)].join(", ");
+  const header = [
+    `Provider: ${request.provider}`,
+    `Model: ${request.model}`,
+    `Command: ${request.command}`,
+    `Masked secrets: ${request.redacted.length > 0 ? `${request.redacted.length} (${kinds})` : "none found"}`,
+  ];
+  const messages = request.messages.map((m) => `===== ${m.role} =====\n${m.content}`);
+  return [header.join("\n"), ...messages].join("\n\n") + "\n";
+}
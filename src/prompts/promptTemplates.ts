@@ -0,0 +1,262 @@
+import * as vscode from "vscode";
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  prompt: string;
+  source: "builtin" | "workspace";
+}
+
+/** Editor state a template can refer to; missing values expand to "". */
+export interface TemplateValues {
+  selection?: string;
+  function?: string;
+  functionName?: string;
+  fileName?: string;
+  language?: string;
+  /** Text typed after the command, e.g. "in Python 3.8" in "/fix in Python 3.8" */
+  input?: string;
+}
+
+const DEFAULT_TEMPLATES_FILE = ".vscode/ai-prompts.json";
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "explain",
+    description: "Explain the selection or current function",
+    prompt:
+      "Explain {{target}} in {{fileName}}: what it does, how it works step by step, and anything surprising.",
+  },
+  {
+    name: "fix",
+    description: "Find and fix bugs",
+    prompt:
+      "Find and fix the bugs in {{target}} in {{fileName}}. Explain each problem briefly, then show the corrected code.",
+  },
+  {
+    name: "test",
+    description: "Write unit tests",
+    prompt:
+      "Write unit tests for {{target}} in {{fileName}} using the usual {{language}} test framework. Cover normal cases, edge cases and error handling.",
+  },
+  {
+    name: "doc",
+    description: "Write documentation comments",
+    prompt:
+      "Write documentation comments for {{target}} in {{fileName}} in the idiomatic {{language}} style (purpose, parameters, return value, errors). Show the code with the comments added.",
+  },
+  {
+    name: "review",
+    description: "Review for bugs, security and readability",
+    prompt:
+      "Review {{target}} in {{fileName}} for bugs, unhandled edge cases, security, performance and readability problems. Point at the exact lines and suggest concrete fixes.",
+  },
+  {
+    name: "optimize",
+    description: "Make it faster without changing behaviour",
+    prompt:
+      "Optimize {{target}} in {{fileName}} for performance without changing its behaviour. Explain what was slow and show the improved code.",
+  },
+].map((t) => ({ ...t, source: "builtin" as const }));
+
+const EXAMPLE_TEMPLATES = {
+  security: {
+    description: "Check for injection and secrets",
+    prompt:
+      "Check this {{language}} code from {{fileName}} for injection, unsafe deserialization and hard-coded secrets:\n\n{{selection}}",
+  },
+  naming: {
+    description: "Suggest better names",
+    prompt: "Suggest clearer names for the variables and helpers in `{{functionName}}`:\n\n{{function}}",
+  },
+};
+
+/**
+ * Split "/name rest of the message" into the command name and the rest.
+ * Returns undefined for ordinary messages, including ones that merely start
+ * with a path such as "/usr/bin is missing".
+ */
+export function parseSlashCommand(message: string): { name: string; input: string } | undefined {
+  const match = message.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+  return match ? { name: match[1].toLowerCase(), input: (match[2] ?? "").trim() } : undefined;
+}
+
+/**
+ * Fill a template's {{placeholders}}. {{target}} names what the command is
+ * about ("the selected code", "the function `foo`", "the file"), for
+ * templates that leave the code itself to the chat context. Text typed after
+ * the command is appended when the template has no {{input}}.
+ */
+export function fillTemplate(template: PromptTemplate, values: TemplateValues): string {
+  const target = values.selection
+    ? "the selected code"
+    : values.functionName
+      ? `the function \`${values.functionName}\``
+      : "the code";
+  const replacements: Record<string, string> = {
+    selection: values.selection || values.function || "",
+    function: values.function ?? "",
+    functionName: values.functionName ?? "",
+    fileName: values.fileName || "the current file",
+    language: values.language ?? "",
+    input: values.input ?? "",
+    target,
+  };
+
+  let prompt = template.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in replacements ? replacements[key] : placeholder
+  );
+  if (values.input && !/\{\{\s*input\s*\}\}/.test(template.prompt)) {
+    prompt += `\n\n${values.input}`;
+  }
+  return prompt.trim();
+}
+
+/**
+ * The chat's slash commands: the built-ins plus the team's own templates
+ * from a JSON file in the workspace (`aiDevAssistant.chat.templatesFile`),
+ * reloaded whenever the file changes. A workspace template with a built-in's
+ * name replaces it.
+ */
+export class PromptTemplates implements vscode.Disposable {
+  private workspaceTemplates: PromptTemplate[] = [];
+  private watcher?: vscode.FileSystemWatcher;
+  private loading?: Promise<void>;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this,
+      vscode.commands.registerCommand("aiDevAssistant.editPromptTemplates", () => this.openTemplatesFile()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("aiDevAssistant.chat.templatesFile")) {
+          this.watch();
+          this.reload();
+        }
+      })
+    );
+    this.watch();
+    this.reload();
+  }
+
+  /** Every command, sorted by name. */
+  public async getAll(): Promise<PromptTemplate[]> {
+    await this.loading;
+    const byName = new Map<string, PromptTemplate>();
+    for (const template of [...BUILTIN_TEMPLATES, ...this.workspaceTemplates]) {
+      byName.set(template.name, template);
+    }
+    return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async find(name: string): Promise<PromptTemplate | undefined> {
+    return (await this.getAll()).find((t) => t.name === name);
+  }
+
+  public dispose(): void {
+    this.watcher?.dispose();
+    this._onDidChange.dispose();
+  }
+
+  private getTemplatesUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return undefined;
+    }
+    const file =
+      vscode.workspace.getConfiguration("aiDevAssistant").get<string>("chat.templatesFile") ||
+      DEFAULT_TEMPLATES_FILE;
+    return vscode.Uri.joinPath(folder.uri, file);
+  }
+
+  private watch(): void {
+    this.watcher?.dispose();
+    this.watcher = undefined;
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const uri = this.getTemplatesUri();
+    if (!folder || !uri) {
+      return;
+    }
+
+    const relative = vscode.workspace.asRelativePath(uri, false);
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, relative));
+    this.watcher.onDidCreate(() => this.reload());
+    this.watcher.onDidChange(() => this.reload());
+    this.watcher.onDidDelete(() => this.reload());
+  }
+
+  private reload(): void {
+    this.loading = this.load().then(() => this._onDidChange.fire());
+  }
+
+  private async load(): Promise<void> {
+    const uri = this.getTemplatesUri();
+    if (!uri) {
+      this.workspaceTemplates = [];
+      return;
+    }
+
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+    } catch {
+      // No templates file is the normal case
+      this.workspaceTemplates = [];
+      return;
+    }
+
+    try {
+      this.workspaceTemplates = parseTemplatesFile(JSON.parse(text));
+    } catch (error: any) {
+      this.workspaceTemplates = [];
+      vscode.window.showWarningMessage(
+        `AI Dev Assistant: could not read prompt templates from ${vscode.workspace.asRelativePath(uri)}: ${error.message}`
+      );
+    }
+  }
+
+  /** Open the templates file, creating it with a couple of examples first. */
+  private async openTemplatesFile(): Promise<void> {
+    const uri = this.getTemplatesUri();
+    if (!uri) {
+      vscode.window.showErrorMessage("Open a folder to define prompt templates");
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      const content = JSON.stringify(EXAMPLE_TEMPLATES, null, 2) + "\n";
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+    }
+    await vscode.window.showTextDocument(uri);
+  }
+}
+
+/**
+ * The file maps command names to `{ "description", "prompt" }`, or straight
+ * to the prompt text.
+ */
+function parseTemplatesFile(json: any): PromptTemplate[] {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("expected an object mapping command names to templates");
+  }
+
+  const templates: PromptTemplate[] = [];
+  for (const [rawName, value] of Object.entries<any>(json)) {
+    const name = rawName.replace(/^\//, "").toLowerCase();
+    const prompt = typeof value === "string" ? value : value?.prompt;
+    if (!/^[\w-]+$/.test(name) || typeof prompt !== "string" || !prompt.trim()) {
+      throw new Error(`"${rawName}" needs a name made of letters, digits, - or _ and a "prompt"`);
+    }
+    templates.push({
+      name,
+      description: (typeof value === "object" && value.description) || "Workspace template",
+      prompt,
+      source: "workspace",
+    });
+  }
+  return templates;
+}
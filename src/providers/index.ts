@@ -0,0 +1,39 @@
+import { LLMProvider, ProviderConfig } from "./types";
+import { ProxyProvider } from "./proxyProvider";
+import { OpenAIProvider } from "./openAIProvider";
+import { OllamaProvider } from "./ollamaProvider";
+
+export * from "./types";
+
+export type ProviderId = "proxy" | "openai" | "ollama";
+
+export const DEFAULT_BASE_URLS: Record<ProviderId, string> = {
+  proxy: "http://localhost:8080/api",
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+/**
+ * Map the `aiDevAssistant.provider` setting to a provider id. "gemini" was the
+ * old default and always meant the proxy backend.
+ */
+export function normalizeProviderId(value: string | undefined): ProviderId {
+  switch (value) {
+    case "openai":
+    case "ollama":
+      return value;
+    default:
+      return "proxy";
+  }
+}
+
+export function createProvider(id: ProviderId, config: ProviderConfig): LLMProvider {
+  switch (id) {
+    case "openai":
+      return new OpenAIProvider(config);
+    case "ollama":
+      return new OllamaProvider(config);
+    default:
+      return new ProxyProvider(config);
+  }
+}
@@ -0,0 +1,90 @@
+import axios from "axios";
+import { readJsonStream } from "../streaming";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderConfig, TokenUsage } from "./types";
+
+/**
+ * A local Ollama-style server (`POST /api/chat`). Streams newline-delimited
+ * JSON; the final line (`done: true`) carries the token counts.
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly id = "ollama";
+
+  constructor(private readonly config: ProviderConfig) {}
+
+  public async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    // Local models can be slow to load, so allow more time than the hosted providers
+    const response = await axios.post(this.endpoint, this.buildPayload(request, false), {
+      headers: { "Content-Type": "application/json" },
+      timeout: 300000,
+      signal,
+    });
+
+    const data = response.data;
+    return {
+      content: data.message?.content ?? "",
+      usage: toUsage(data),
+    };
+  }
+
+  public async stream(
+    request: LLMRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await axios.post(this.endpoint, this.buildPayload(request, true), {
+      headers: { "Content-Type": "application/json" },
+      responseType: "stream",
+      signal,
+    });
+
+    let content = "";
+    let usage: TokenUsage | undefined;
+
+    await readJsonStream(response.data, (data) => {
+      if (data.done) {
+        usage = toUsage(data);
+      }
+      const piece = data.message?.content ?? "";
+      if (typeof piece === "string" && piece) {
+        content += piece;
+        onChunk(piece);
+      }
+    });
+
+    return { content, usage };
+  }
+
+  public async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.config.baseUrl}/api/embed`,
+      { model, input: texts },
+      { headers: { "Content-Type": "application/json" }, timeout: 300000, signal }
+    );
+    return response.data.embeddings ?? [];
+  }
+
+  private get endpoint(): string {
+    return `${this.config.baseUrl}/api/chat`;
+  }
+
+  private buildPayload(request: LLMRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+      },
+    };
+  }
+}
+
+function toUsage(data: any): TokenUsage | undefined {
+  if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+    return undefined;
+  }
+  const input = data.prompt_eval_count ?? 0;
+  const output = data.eval_count ?? 0;
+  return { input, output, total: input + output };
+}
@@ -0,0 +1,102 @@
+import axios from "axios";
+import { readJsonStream } from "../streaming";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderConfig, TokenUsage } from "./types";
+
+/**
+ * Any OpenAI-compatible `/chat/completions` endpoint (OpenAI itself, Azure
+ * style gateways, vLLM, LiteLLM, ...). `baseUrl` is the part before
+ * `/chat/completions`, e.g. `https://api.openai.com/v1`.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly id = "openai";
+
+  constructor(private readonly config: ProviderConfig) {}
+
+  public async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await axios.post(this.endpoint, this.buildPayload(request, false), {
+      headers: this.headers(),
+      timeout: 60000,
+      signal,
+    });
+
+    const data = response.data;
+    return {
+      content: data.choices?.[0]?.message?.content ?? "",
+      usage: toUsage(data.usage),
+    };
+  }
+
+  public async stream(
+    request: LLMRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await axios.post(this.endpoint, this.buildPayload(request, true), {
+      headers: { ...this.headers(), Accept: "text/event-stream" },
+      responseType: "stream",
+      signal,
+    });
+
+    let content = "";
+    let usage: TokenUsage | undefined;
+
+    await readJsonStream(response.data, (data) => {
+      usage = toUsage(data.usage) ?? usage;
+      // A non-streaming server answers with a full `message` instead of deltas
+      const choice = data.choices?.[0];
+      const piece = choice?.delta?.content ?? choice?.message?.content ?? "";
+      if (typeof piece === "string" && piece) {
+        content += piece;
+        onChunk(piece);
+      }
+    });
+
+    return { content, usage };
+  }
+
+  public async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.config.baseUrl}/embeddings`,
+      { model, input: texts },
+      { headers: this.headers(), timeout: 60000, signal }
+    );
+
+    // Entries carry their input index; don't rely on the order
+    const data: Array<{ index: number; embedding: number[] }> = response.data.data ?? [];
+    return [...data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  }
+
+  private get endpoint(): string {
+    return `${this.config.baseUrl}/chat/completions`;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildPayload(request: LLMRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+}
+
+function toUsage(usage: any): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    input: usage.prompt_tokens ?? 0,
+    output: usage.completion_tokens ?? 0,
+    total: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+}
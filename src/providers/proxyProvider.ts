@@ -0,0 +1,98 @@
+import axios from "axios";
+import { readJsonStream } from "../streaming";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderConfig, TokenUsage } from "./types";
+
+/**
+ * The team's proxy backend. It takes the latest message, the system prompt and
+ * the earlier turns as separate fields and reports usage as `tokens`.
+ */
+export class ProxyProvider implements LLMProvider {
+  public readonly id = "proxy";
+
+  constructor(private readonly config: ProviderConfig) {}
+
+  public async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await axios.post(this.endpoint, this.buildPayload(request), {
+      headers: this.headers(),
+      timeout: 60000,
+      signal,
+    });
+
+    const data = response.data;
+    return {
+      content: data.content || data,
+      usage: toUsage(data.tokens),
+    };
+  }
+
+  public async stream(
+    request: LLMRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await axios.post(
+      this.endpoint,
+      { ...this.buildPayload(request), stream: true },
+      {
+        headers: {
+          ...this.headers(),
+          Accept: "text/event-stream, application/x-ndjson, application/json",
+        },
+        responseType: "stream",
+        signal,
+      }
+    );
+
+    let content = "";
+    let usage: TokenUsage | undefined;
+
+    await readJsonStream(response.data, (data) => {
+      usage = toUsage(data.tokens) ?? usage;
+      const piece = data.delta ?? data.content ?? data.text ?? "";
+      if (typeof piece === "string" && piece) {
+        content += piece;
+        onChunk(piece);
+      }
+    });
+
+    return { content, usage };
+  }
+
+  private get endpoint(): string {
+    return `${this.config.baseUrl}/ai-chat-gemini`;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildPayload(request: LLMRequest) {
+    const [system, ...turns] = request.messages;
+    const lastMessage = turns[turns.length - 1];
+
+    return {
+      message: lastMessage?.content ?? "",
+      systemPrompt: system.content,
+      history: turns.slice(0, -1),
+      codeContext: null,
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+    };
+  }
+}
+
+function toUsage(tokens: any): TokenUsage | undefined {
+  if (!tokens) {
+    return undefined;
+  }
+  return {
+    input: tokens.input ?? 0,
+    output: tokens.output ?? 0,
+    total: tokens.total ?? (tokens.input ?? 0) + (tokens.output ?? 0),
+  };
+}
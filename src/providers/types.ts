@@ -0,0 +1,50 @@
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface LLMRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage?: TokenUsage;
+}
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+/**
+ * A chat backend. `messages` always start with the system prompt.
+ * Implementations throw on transport/HTTP errors; aiService turns those into
+ * user-facing messages.
+ */
+export interface LLMProvider {
+  readonly id: string;
+
+  complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+
+  /** Like `complete`, but hands each piece of text to `onChunk` as it arrives. */
+  stream(
+    request: LLMRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+
+  /** One embedding vector per text. Only some backends offer embeddings. */
+  embed?(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]>;
+}
@@ -0,0 +1,402 @@
+import * as vscode from "vscode";
+import { askLLM } from "../aiService";
+import { ASTParser, FunctionMetadata } from "../codeAnalysis/astParser";
+import { getLanguageForFile } from "../codeAnalysis/languageRegistry";
+import { ContextSnippet, buildContext } from "../context/contextBuilder";
+import { stripCodeFences } from "../editing/codeBlocks";
+import { ChangeSet, GitRepository, changedFileUri, findRepository, getDiff, readChangedFile } from "./gitChanges";
+import { isExcludedFromAI } from "../privacy/excludedFiles";
+import { DiffHunk, FileDiff, hunkNewRange, parseUnifiedDiff } from "./unifiedDiff";
+
+export type FindingSeverity = "error" | "warning" | "info";
+
+export interface ReviewFinding {
+  /** 1-based line in the changed file */
+  line: number;
+  severity: FindingSeverity;
+  message: string;
+  suggestion?: string;
+}
+
+const MAX_REVIEW_FILES = 25;
+// Findings may point a little outside a hunk, e.g. at the line a removal affects
+const ANCHOR_SLACK_LINES = 3;
+
+const CHANGE_SET_LABELS: Record<ChangeSet, string> = {
+  all: "all uncommitted changes",
+  unstaged: "unstaged changes",
+  staged: "staged changes",
+};
+
+const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  error: "$(error) Error",
+  warning: "$(warning) Warning",
+  info: "$(info) Info",
+};
+
+/**
+ * "Review my changes": reads the uncommitted diff, gives the model each
+ * changed file's hunks together with the functions they touch, and shows the
+ * findings on the affected lines, as comment threads or as diagnostics
+ * (`aiDevAssistant.review.output`).
+ */
+export class ChangeReviewer {
+  private readonly comments = vscode.comments.createCommentController("aiDevAssistant.review", "AI Review");
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection("aiDevAssistant.review");
+  private threads: vscode.CommentThread[] = [];
+
+  constructor(private readonly parser: ASTParser) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this.comments,
+      this.diagnostics,
+      vscode.commands.registerCommand("aiDevAssistant.reviewChanges", (changes?: ChangeSet) =>
+        this.reviewChanges(changes)
+      ),
+      vscode.commands.registerCommand("aiDevAssistant.clearReview", () => this.clear()),
+      vscode.commands.registerCommand("aiDevAssistant.resolveReviewComment", (thread: vscode.CommentThread) =>
+        this.resolve(thread)
+      )
+    );
+  }
+
+  private async reviewChanges(changes?: ChangeSet): Promise<void> {
+    const repository = await findRepository();
+    if (!repository) {
+      vscode.window.showErrorMessage("No git repository found in this workspace");
+      return;
+    }
+
+    if (!changes) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          {
+            label: "All uncommitted changes",
+            description: "git diff HEAD, plus new files",
+            changes: "all" as const,
+          },
+          { label: "Staged changes", description: "git diff --cached", changes: "staged" as const },
+          {
+            label: "Unstaged changes",
+            description: "git diff, plus new files",
+            changes: "unstaged" as const,
+          },
+        ],
+        { title: "Review my changes" }
+      );
+      if (!picked) return;
+      changes = picked.changes;
+    }
+
+    let diff: string;
+    try {
+      diff = await getDiff(repository, changes);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Could not read the git diff: ${error.message}`);
+      return;
+    }
+
+    const files = parseUnifiedDiff(diff).filter(
+      (f) =>
+        f.newPath &&
+        !f.binary &&
+        f.hunks.length > 0 &&
+        !isExcludedFromAI(changedFileUri(repository!, f.newPath))
+    );
+    if (files.length === 0) {
+      vscode.window.showInformationMessage(`No ${CHANGE_SET_LABELS[changes]} to review.`);
+      return;
+    }
+    if (files.length > MAX_REVIEW_FILES) {
+      vscode.window.showWarningMessage(
+        `Reviewing the first ${MAX_REVIEW_FILES} of ${files.length} changed files.`
+      );
+    }
+
+    this.clear();
+    let findingCount = 0;
+    let reviewedFiles = 0;
+    const failures: string[] = [];
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "AI review", cancellable: true },
+      async (progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+        const batch = files.slice(0, MAX_REVIEW_FILES);
+
+        for (const file of batch) {
+          if (token.isCancellationRequested) break;
+          progress.report({
+            message: `${file.newPath} (${reviewedFiles + 1}/${batch.length})`,
+            increment: 100 / batch.length,
+          });
+
+          const findings = await this.reviewFile(repository, file, changes!, abortController.signal);
+          if (token.isCancellationRequested) break;
+          if (findings === undefined) {
+            failures.push(file.newPath!);
+            continue;
+          }
+
+          reviewedFiles++;
+          findingCount += findings.length;
+          await this.show(changedFileUri(repository, file.newPath!), findings);
+        }
+      }
+    );
+
+    const summary = `AI review of ${CHANGE_SET_LABELS[changes]}: ${findingCount} finding${
+      findingCount === 1 ? "" : "s"
+    } in ${reviewedFiles} file${reviewedFiles === 1 ? "" : "s"}`;
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(`${summary}. Could not review: ${failures.join(", ")}`);
+    } else {
+      vscode.window.showInformationMessage(`${summary}.`);
+    }
+  }
+
+  /** Findings for one file, or undefined if the model could not be asked or answered nonsense. */
+  private async reviewFile(
+    repository: GitRepository,
+    file: FileDiff,
+    changes: ChangeSet,
+    signal: AbortSignal
+  ): Promise<ReviewFinding[] | undefined> {
+    const relativePath = file.newPath!;
+    const text = await readChangedFile(repository, relativePath, changes);
+    const language = getLanguageForFile(relativePath);
+    const analysis = text !== undefined && language ? this.parser.parseFile(text, language.id) : null;
+    const lines = text?.split(/\r?\n/) ?? [];
+
+    // Each hunk, then the functions the hunks touch, with line numbers the
+    // model can anchor its findings to
+    const touched = new Map<string, FunctionMetadata>();
+    const snippets: ContextSnippet[] = file.hunks.map((hunk) => {
+      const functions = analysis ? enclosingFunctions(analysis.functions, hunk) : [];
+      functions.forEach((f) => touched.set(`${f.name}:${f.lineStart}`, f));
+      const { start, end } = hunkNewRange(hunk);
+      const where = functions.length > 0 ? ` in ${functions.map((f) => `\`${f.name}\``).join(", ")}` : "";
+      return {
+        label: `Lines ${start}-${end}`,
+        section: "Changes (new line number, +/- marker, code)",
+        title: `Lines ${start}-${end}${where}:`,
+        content: numberHunk(hunk),
+        fence: "diff",
+        priority: 100,
+        truncate: "code",
+      };
+    });
+    for (const func of touched.values()) {
+      snippets.push({
+        label: `Function ${func.name}`,
+        section: "Functions touched by the changes, as they are now",
+        title: `${func.signature} (lines ${func.lineStart}-${func.lineEnd}):`,
+        content: numberLines(lines, func.lineStart, func.lineEnd),
+        fence: language?.id ?? "",
+        priority: 50,
+        truncate: "code",
+      });
+    }
+    const context = buildContext(snippets);
+
+    const prompt = `
+Review these changes to ${relativePath}${language ? ` (${language.displayName})` : ""} before they go into a pull request.
+
+${context.text}
+Report only real problems in the changed lines or caused by them: bugs, unhandled edge cases,
+security issues, performance problems, misleading names or comments. Do not comment on
+unchanged code or on formatting.
+
+Answer with a JSON array and nothing else. One object per finding:
+{"line": <new line number from the left column>, "severity": "error" | "warning" | "info",
+ "message": "<the problem in one or two sentences>", "suggestion": "<the corrected code, or how to fix it>"}
+Answer [] if the changes look fine.
+`;
+
+    const response = await askLLM(prompt, { signal, command: "review" });
+    if (signal.aborted || response.startsWith("❌")) {
+      return undefined;
+    }
+
+    const findings = parseFindings(response);
+    if (findings === undefined) {
+      return undefined;
+    }
+
+    // Keep findings anchored on or near the changes, or inside a touched function
+    const anchors = [
+      ...file.hunks.map(hunkNewRange).map(({ start, end }) => ({
+        start: start - ANCHOR_SLACK_LINES,
+        end: end + ANCHOR_SLACK_LINES,
+      })),
+      ...[...touched.values()].map((f) => ({ start: f.lineStart, end: f.lineEnd })),
+    ];
+    const lineCount = Math.max(lines.length, 1);
+    return findings
+      .filter((f) => anchors.some(({ start, end }) => f.line >= start && f.line <= end))
+      .map((f) => ({ ...f, line: Math.min(Math.max(f.line, 1), lineCount) }));
+  }
+
+  private async show(uri: vscode.Uri, findings: ReviewFinding[]): Promise<void> {
+    if (findings.length === 0) {
+      return;
+    }
+
+    const output = vscode.workspace.getConfiguration("aiDevAssistant").get<string>("review.output", "comments");
+    const document = await vscode.workspace.openTextDocument(uri).then(
+      (d) => d,
+      () => undefined
+    );
+    const lineRange = (line: number) => {
+      const index = line - 1;
+      if (!document || index >= document.lineCount) {
+        return new vscode.Range(index, 0, index, 0);
+      }
+      const textLine = document.lineAt(index);
+      return new vscode.Range(index, textLine.firstNonWhitespaceCharacterIndex, index, textLine.text.length);
+    };
+
+    if (output === "diagnostics") {
+      this.diagnostics.set(
+        uri,
+        findings.map((finding) => {
+          const diagnostic = new vscode.Diagnostic(
+            lineRange(finding.line),
+            finding.suggestion ? `${finding.message}\nSuggested fix: ${finding.suggestion}` : finding.message,
+            finding.severity === "error"
+              ? vscode.DiagnosticSeverity.Error
+              : finding.severity === "warning"
+                ? vscode.DiagnosticSeverity.Warning
+                : vscode.DiagnosticSeverity.Information
+          );
+          diagnostic.source = "AI Review";
+          return diagnostic;
+        })
+      );
+      return;
+    }
+
+    for (const finding of findings) {
+      const body = new vscode.MarkdownString(finding.message);
+      if (finding.suggestion) {
+        body.appendMarkdown("\n\n**Suggested fix:**");
+        if (finding.suggestion.includes("\n")) {
+          body.appendMarkdown("\n");
+          body.appendCodeblock(finding.suggestion, document?.languageId ?? "");
+        } else {
+          body.appendMarkdown(" ");
+          body.appendText(finding.suggestion);
+        }
+      }
+
+      const thread = this.comments.createCommentThread(uri, lineRange(finding.line), [
+        {
+          body,
+          mode: vscode.CommentMode.Preview,
+          author: { name: "AI Review" },
+          label: finding.severity,
+        },
+      ]);
+      thread.label = SEVERITY_LABELS[finding.severity];
+      thread.canReply = false;
+      thread.contextValue = "aiReviewFinding";
+      thread.state = vscode.CommentThreadState.Unresolved;
+      thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+      this.threads.push(thread);
+    }
+  }
+
+  private resolve(thread: vscode.CommentThread | undefined): void {
+    if (!thread) return;
+    thread.dispose();
+    this.threads = this.threads.filter((t) => t !== thread);
+  }
+
+  private clear(): void {
+    this.threads.forEach((thread) => thread.dispose());
+    this.threads = [];
+    this.diagnostics.clear();
+  }
+}
+
+/**
+ * The innermost functions overlapping a hunk: a nested function is reported
+ * rather than the function around it.
+ */
+function enclosingFunctions(functions: FunctionMetadata[], hunk: DiffHunk): FunctionMetadata[] {
+  const { start, end } = hunkNewRange(hunk);
+  const overlapping = functions.filter((f) => f.lineStart <= end && f.lineEnd >= start);
+  return overlapping.filter(
+    (outer) =>
+      !overlapping.some(
+        (inner) =>
+          inner !== outer &&
+          inner.lineStart >= outer.lineStart &&
+          inner.lineEnd <= outer.lineEnd &&
+          inner.lineEnd - inner.lineStart < outer.lineEnd - outer.lineStart
+      )
+  );
+}
+
+function numberHunk(hunk: DiffHunk): string {
+  const width = String(hunk.newStart + hunk.newLines).length;
+  return hunk.lines
+    .map((line) => {
+      if (line.kind === "removed") {
+        return `${" ".repeat(width)} - ${line.text}`;
+      }
+      const marker = line.kind === "added" ? "+" : " ";
+      return `${String(line.newLine).padStart(width)} ${marker} ${line.text}`;
+    })
+    .join("\n");
+}
+
+function numberLines(lines: string[], start: number, end: number): string {
+  const width = String(end).length;
+  return lines
+    .slice(start - 1, end)
+    .map((text, i) => `${String(start + i).padStart(width)}   ${text}`)
+    .join("\n");
+}
+
+/** The JSON array of findings in a model response; undefined when there is none. */
+export function parseFindings(response: string): ReviewFinding[] | undefined {
+  const text = stripCodeFences(response);
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    return undefined;
+  }
+
+  let items: unknown;
+  try {
+    items = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(items)) {
+    return undefined;
+  }
+
+  const findings: ReviewFinding[] = [];
+  for (const item of items as any[]) {
+    const line = Number(item?.line);
+    if (!Number.isInteger(line) || typeof item.message !== "string" || !item.message.trim()) continue;
+
+    const severity = String(item.severity ?? "").toLowerCase();
+    findings.push({
+      line,
+      severity: ["error", "critical", "high"].includes(severity)
+        ? "error"
+        : ["warning", "medium"].includes(severity)
+          ? "warning"
+          : "info",
+      message: item.message.trim(),
+      suggestion:
+        typeof item.suggestion === "string" && item.suggestion.trim() ? item.suggestion.trim() : undefined,
+    });
+  }
+  return findings;
+}
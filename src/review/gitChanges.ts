@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { execFile } from "child_process";
+
+export type ChangeSet = "all" | "unstaged" | "staged";
+
+export interface GitRepository {
+  root: vscode.Uri;
+  /** Repository from the built-in git extension, when it is available */
+  api?: any;
+  gitPath: string;
+}
+
+const GIT_TIMEOUT_MS = 30_000;
+const MAX_DIFF_BYTES = 20 * 1024 * 1024;
+// New files larger than this are listed like binary files, without their text
+const MAX_NEW_FILE_BYTES = 1024 * 1024;
+// `git hash-object -t tree /dev/null`
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * The repository holding the active file (or the first workspace folder),
+ * preferring the built-in git extension and falling back to the git CLI.
+ */
+export async function findRepository(): Promise<GitRepository | undefined> {
+  const git = await getGitApi();
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+
+  if (git && git.repositories.length > 0) {
+    const repository =
+      (activeUri && git.getRepository(activeUri)) ?? git.repositories[0];
+    return { root: repository.rootUri, api: repository, gitPath: git.git?.path ?? "git" };
+  }
+
+  const folder =
+    (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ?? vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    return undefined;
+  }
+  try {
+    const root = (await runGit("git", folder.uri.fsPath, ["rev-parse", "--show-toplevel"])).trim();
+    return root ? { root: vscode.Uri.file(root), gitPath: "git" } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Unified diff of the uncommitted changes: everything against HEAD (or
+ * against nothing before the first commit), only what is not staged yet, or
+ * only what is staged. New files git does not
+ * track yet count as unstaged changes and appear as entirely added.
+ */
+export async function getDiff(repository: GitRepository, changes: ChangeSet): Promise<string> {
+  let diff: string;
+  if (repository.api && changes !== "all") {
+    diff = await repository.api.diff(changes === "staged");
+  } else {
+    const args = ["diff", "--no-color", "--no-ext-diff"];
+    if (changes === "staged") args.push("--cached");
+    if (changes === "all") args.push(await diffBase(repository));
+    diff = await runGit(repository.gitPath, repository.root.fsPath, args);
+  }
+
+  if (changes === "staged") {
+    return diff;
+  }
+  const untracked = await getUntrackedDiff(repository);
+  return diff && untracked && !diff.endsWith("\n") ? `${diff}\n${untracked}` : diff + untracked;
+}
+
+/**
+ * HEAD, or the empty tree in a repository without commits yet, where the
+ * tracked files are all new.
+ */
+async function diffBase(repository: GitRepository): Promise<string> {
+  try {
+    await runGit(repository.gitPath, repository.root.fsPath, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+    return "HEAD";
+  } catch {
+    return EMPTY_TREE;
+  }
+}
+
+/** Untracked, not ignored files rendered as `git diff` shows an added file. */
+async function getUntrackedDiff(repository: GitRepository): Promise<string> {
+  const output = await runGit(repository.gitPath, repository.root.fsPath, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]);
+  const parts: string[] = [];
+  for (const relativePath of output.split("\0").filter(Boolean)) {
+    let bytes: Buffer;
+    try {
+      bytes = await fs.promises.readFile(path.join(repository.root.fsPath, relativePath));
+    } catch {
+      continue; // Deleted since git listed it
+    }
+
+    const header = `diff --git a/${relativePath} b/${relativePath}\nnew file mode 100644\n`;
+    if (bytes.includes(0) || bytes.length > MAX_NEW_FILE_BYTES) {
+      parts.push(`${header}Binary files /dev/null and b/${relativePath} differ\n`);
+      continue;
+    }
+    const lines = bytes.toString("utf8").split(/\r?\n/);
+    if (lines[lines.length - 1] === "") lines.pop();
+    if (lines.length === 0) continue;
+    parts.push(
+      `${header}--- /dev/null\n+++ b/${relativePath}\n@@ -0,0 +1,${lines.length} @@\n` +
+        lines.map((line) => `+${line}\n`).join("")
+    );
+  }
+  return parts.join("");
+}
+
+/**
+ * Contents of a changed file as the diff sees it: the staged version for
+ * staged changes, otherwise the file on disk (not unsaved editor text, whose
+ * lines may not match the diff).
+ */
+export async function readChangedFile(
+  repository: GitRepository,
+  relativePath: string,
+  changes: ChangeSet
+): Promise<string | undefined> {
+  try {
+    if (changes === "staged") {
+      return await runGit(repository.gitPath, repository.root.fsPath, ["show", `:${relativePath}`]);
+    }
+    return await fs.promises.readFile(path.join(repository.root.fsPath, relativePath), "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export function changedFileUri(repository: GitRepository, relativePath: string): vscode.Uri {
+  return vscode.Uri.file(path.join(repository.root.fsPath, relativePath));
+}
+
+async function getGitApi(): Promise<any | undefined> {
+  const extension = vscode.extensions.getExtension("vscode.git");
+  if (!extension) {
+    return undefined;
+  }
+  try {
+    const exports = extension.isActive ? extension.exports : await extension.activate();
+    return exports?.enabled === false ? undefined : exports?.getAPI(1);
+  } catch {
+    return undefined;
+  }
+}
+
+function runGit(gitPath: string, cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      gitPath,
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: MAX_DIFF_BYTES, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
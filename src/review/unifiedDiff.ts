@@ -0,0 +1,124 @@
+export interface DiffLine {
+  kind: "context" | "added" | "removed";
+  text: string;
+  /** 1-based line in the new file; for a removed line, the line that follows the removal */
+  newLine: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  /** Path relative to the repository root; undefined for an added file */
+  oldPath?: string;
+  /** Undefined for a deleted file */
+  newPath?: string;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Parse the output of `git diff` (unified format, any number of files).
+ * Mode changes, renames without edits and binary files come back without
+ * hunks.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+  let newLine = 0;
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith("diff --git ")) {
+      const paths = line.match(/^diff --git ("?)a\/(.+?)\1 ("?)b\/(.+?)\3$/);
+      file = {
+        oldPath: paths ? unquote(paths[2]) : undefined,
+        newPath: paths ? unquote(paths[4]) : undefined,
+        binary: false,
+        hunks: [],
+      };
+      files.push(file);
+      hunk = undefined;
+      continue;
+    }
+    if (!file) continue;
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      newLine = hunk.newStart;
+      continue;
+    }
+
+    if (!hunk) {
+      // File header lines between "diff --git" and the first hunk
+      if (line.startsWith("--- ")) {
+        file.oldPath = headerPath(line.slice(4), "a/");
+      } else if (line.startsWith("+++ ")) {
+        file.newPath = headerPath(line.slice(4), "b/");
+      } else if (line.startsWith("Binary files ")) {
+        file.binary = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      hunk.lines.push({ kind: "added", text: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ kind: "removed", text: line.slice(1), newLine });
+    } else if (line.startsWith(" ")) {
+      hunk.lines.push({ kind: "context", text: line.slice(1), newLine: newLine++ });
+    } else if (!line.startsWith("\\")) {
+      // "\ No newline at end of file" belongs to the hunk; anything else ends it
+      hunk = undefined;
+    }
+  }
+
+  return files;
+}
+
+/** The lines a hunk occupies in the new file (a removal occupies the line after it). */
+export function hunkNewRange(hunk: DiffHunk): { start: number; end: number } {
+  const start = Math.max(hunk.newStart, 1);
+  return { start, end: Math.max(start, hunk.newStart + hunk.newLines - 1) };
+}
+
+function headerPath(value: string, prefix: string): string | undefined {
+  const path = unquote(value.replace(/\t.*$/, ""));
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+/** git quotes paths with unusual characters C-style: "a/caf\303\251.txt". */
+function unquote(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+  const bytes: number[] = [];
+  const inner = value.slice(1, -1);
+  for (let i = 0; i < inner.length; i++) {
+    const escape = inner[i] === "\\" ? inner.slice(i + 1).match(/^([0-7]{3}|.)/)?.[1] : undefined;
+    if (escape === undefined) {
+      bytes.push(...Buffer.from(inner[i], "utf8"));
+      continue;
+    }
+    i += escape.length;
+    const simple: Record<string, string> = { n: "\n", t: "\t", '"': '"', "\\": "\\" };
+    bytes.push(...(escape.length === 3 ? [parseInt(escape, 8)] : Buffer.from(simple[escape] ?? escape, "utf8")));
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
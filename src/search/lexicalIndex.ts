@@ -0,0 +1,133 @@
+// Words too common in code and questions to say anything about relevance
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "with", "is",
+  "are", "be", "it", "this", "that", "do", "does", "we", "i", "you", "where",
+  "what", "how", "which", "who", "when", "why", "can", "my", "our", "me",
+  "return", "const", "let", "var", "function", "def", "self", "new", "null",
+  "true", "false", "if", "else", "int", "string", "void", "public", "private",
+  // Path segments that appear in every chunk
+  "src", "js", "jsx", "ts", "tsx", "py", "java", "go", "rs", "cs",
+]);
+
+/**
+ * Split text into search terms: identifiers are broken up at camelCase and
+ * snake_case boundaries, lower-cased and reduced to a rough stem, so
+ * "validateJwtTokens" and "where do we validate JWTs?" share terms.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text
+    // Plural acronyms first, so "JWTs" does not split into "JW Ts"
+    .replace(/([A-Z]{2,})s\b/g, "$1")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/);
+
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if (lower.length < 2 || STOP_WORDS.has(lower) || /^\d+$/.test(lower)) {
+      continue;
+    }
+    terms.push(stem(lower));
+  }
+  return terms;
+}
+
+/** A crude suffix stripper; good enough to match validate/validation/validates. */
+function stem(word: string): string {
+  const suffixes = [
+    "ations", "ation", "ating", "ates", "ated", "ate", "ions", "ion", "ing",
+    "ers", "er", "ed", "es", "s", "e",
+  ];
+  for (const suffix of suffixes) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+interface IndexedDocument {
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 ranking (a length-normalised TF-IDF) over a set of documents. Works
+ * entirely in memory and needs nothing but the text.
+ */
+export class LexicalIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public add(id: string, text: string): void {
+    this.remove(id);
+
+    const termCounts = new Map<string, number>();
+    const terms = tokenize(text);
+    for (const term of terms) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    for (const term of termCounts.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    this.documents.set(id, { termCounts, length: terms.length });
+    this.totalLength += terms.length;
+  }
+
+  public remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    for (const term of existing.termCounts.keys()) {
+      const count = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (count > 0) {
+        this.documentFrequency.set(term, count);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+  }
+
+  /** Document ids with a positive score for `query`, best first. */
+  public search(query: string, limit: number): Array<{ id: string; score: number }> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const results: Array<{ id: string; score: number }> = [];
+
+    for (const [id, document] of this.documents) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.termCounts.get(term);
+        if (!frequency) continue;
+
+        const { K1, B } = LexicalIndex;
+        const containing = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.size - containing + 0.5) / (containing + 0.5));
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * document.length) / averageLength));
+      }
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
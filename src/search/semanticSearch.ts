@@ -0,0 +1,203 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { CodebaseIndexer, FunctionLocation } from "../codeAnalysis/codebaseIndexer";
+import { embedTexts } from "../aiService";
+import { LexicalIndex } from "./lexicalIndex";
+import { isExcludedFromAI } from "../privacy/excludedFiles";
+
+/** One searchable unit: a function from the index with its source. */
+export interface CodeChunk extends FunctionLocation {
+  id: string;
+  /** Source of the function, cut to MAX_CHUNK_LINES */
+  text: string;
+}
+
+export interface SearchResult {
+  chunk: CodeChunk;
+  /** Between 0 and 1; the best lexical match scores 1 */
+  score: number;
+}
+
+const MAX_CHUNK_LINES = 80;
+// Share of the final score that comes from embeddings when they are enabled
+const EMBEDDING_WEIGHT = 0.6;
+
+function getSearchConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    useEmbeddings: config.get<boolean>("search.useEmbeddings") ?? false,
+    embeddingModel: config.get<string>("search.embeddingModel") ?? "",
+  };
+}
+
+/**
+ * Natural-language search over the functions in the CodebaseIndex ("where do
+ * we validate JWTs?"). Each function is one chunk, bounded by its AST line
+ * range. Chunks are ranked with BM25, which works offline; when embeddings
+ * are enabled, the configured backend's embeddings are blended in.
+ */
+export class SemanticSearch {
+  private lexical = new LexicalIndex();
+  private chunks = new Map<string, CodeChunk>();
+  // File path -> content hash its chunks were built from
+  private fileHashes = new Map<string, string>();
+  // File path -> ids of its chunks, so a changed file does not scan every chunk
+  private fileChunks = new Map<string, string[]>();
+  // Chunk id -> embedding; dropped together with the chunk
+  private embeddings = new Map<string, number[]>();
+  // Model the embeddings came from; vectors of different models do not compare
+  private embeddingModel?: string;
+  private embeddingErrorShown = false;
+
+  constructor(private readonly indexer: CodebaseIndexer) {}
+
+  public async search(query: string, limit = 10, signal?: AbortSignal): Promise<SearchResult[]> {
+    await this.sync();
+
+    const scores = new Map<string, number>();
+    const lexical = this.lexical.search(query, Math.max(limit * 5, 50));
+    const best = lexical[0]?.score ?? 0;
+    for (const { id, score } of lexical) {
+      scores.set(id, score / best);
+    }
+
+    const { useEmbeddings, embeddingModel } = getSearchConfig();
+    if (useEmbeddings && embeddingModel) {
+      const semantic = await this.semanticScores(query, embeddingModel, signal);
+      if (semantic) {
+        for (const [id, similarity] of semantic) {
+          const lexicalScore = scores.get(id) ?? 0;
+          scores.set(id, EMBEDDING_WEIGHT * similarity + (1 - EMBEDDING_WEIGHT) * lexicalScore);
+        }
+      }
+    }
+
+    return [...scores]
+      .filter(([, score]) => score > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => ({ chunk: this.chunks.get(id)!, score }));
+  }
+
+  /**
+   * Bring the chunks in line with the index, re-reading only changed files.
+   * Files excluded from AI requests get no chunks, so they are never embedded.
+   */
+  private async sync(): Promise<void> {
+    const files = this.indexer.getIndex().files;
+
+    for (const filePath of [...this.fileHashes.keys()]) {
+      if (!files.has(filePath) || isExcludedFromAI(filePath)) {
+        this.removeFile(filePath);
+      }
+    }
+
+    for (const [filePath, analysis] of files) {
+      if (isExcludedFromAI(filePath)) continue;
+      const hash = analysis.contentHash ?? "";
+      if (this.fileHashes.get(filePath) === hash) continue;
+
+      this.removeFile(filePath);
+      const lines = await readLines(filePath);
+      const relativePath = vscode.workspace.asRelativePath(filePath);
+      const ids: string[] = [];
+
+      for (const func of analysis.functions) {
+        const body = lines.slice(func.lineStart - 1, func.lineEnd);
+        const chunk: CodeChunk = {
+          // Several functions can start on one line (`const a = () => 1, b = () => 2`)
+          id: `${filePath}#${func.lineStart}-${func.lineEnd}:${func.name}`,
+          func,
+          filePath,
+          fileName: path.basename(filePath),
+          text: body.slice(0, MAX_CHUNK_LINES).join("\n"),
+        };
+        if (this.chunks.has(chunk.id)) continue;
+        this.chunks.set(chunk.id, chunk);
+        ids.push(chunk.id);
+        // The name and path count extra: they are the best summary of a function
+        this.lexical.add(chunk.id, `${func.name} ${func.name} ${relativePath}\n${chunk.text}`);
+      }
+      this.fileHashes.set(filePath, hash);
+      this.fileChunks.set(filePath, ids);
+    }
+  }
+
+  private removeFile(filePath: string): void {
+    for (const id of this.fileChunks.get(filePath) ?? []) {
+      this.chunks.delete(id);
+      this.embeddings.delete(id);
+      this.lexical.remove(id);
+    }
+    this.fileChunks.delete(filePath);
+    this.fileHashes.delete(filePath);
+  }
+
+  /**
+   * Cosine similarity of every chunk to the query, embedding chunks that have
+   * no vector yet in the same request as the query (one preview for the
+   * whole pass). Returns undefined when the backend cannot embed.
+   */
+  private async semanticScores(
+    query: string,
+    model: string,
+    signal?: AbortSignal
+  ): Promise<Map<string, number> | undefined> {
+    if (model !== this.embeddingModel) {
+      this.embeddings.clear();
+      this.embeddingModel = model;
+    }
+
+    try {
+      // The query goes first, followed by every chunk without a vector
+      const missing = [...this.chunks.values()].filter((c) => !this.embeddings.has(c.id));
+      const texts = [query, ...missing.map((c) => `${c.func.signature}\n${c.text}`)];
+      const [queryVector] = await embedTexts(texts, model, {
+        signal,
+        onBatch: (start, vectors) =>
+          vectors.forEach((vector, index) => {
+            const chunk = missing[start + index - 1];
+            if (chunk && vector) this.embeddings.set(chunk.id, vector);
+          }),
+      });
+      if (!queryVector) return undefined;
+
+      const similarities = new Map<string, number>();
+      for (const [id, vector] of this.embeddings) {
+        similarities.set(id, Math.max(0, cosineSimilarity(queryVector, vector)));
+      }
+      return similarities;
+    } catch (error: any) {
+      // Fall back to lexical ranking; say so once rather than on every query
+      console.error("Embedding search failed:", error);
+      if (!this.embeddingErrorShown && !signal?.aborted) {
+        this.embeddingErrorShown = true;
+        vscode.window.showWarningMessage(
+          `AI Dev Assistant: Embeddings unavailable (${error.message}). Using keyword search only.`
+        );
+      }
+      return undefined;
+    }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function readLines(filePath: string): Promise<string[]> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+    return Buffer.from(bytes).toString("utf8").split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,97 @@
+import { Readable } from "stream";
+
+const IDLE_TIMEOUT_MS = 60000;
+
+/**
+ * Read a streamed HTTP body line by line. Understands both Server-Sent Events
+ * (`data: {...}` lines, terminated by `data: [DONE]`) and newline-delimited
+ * JSON. Every decoded JSON payload is handed to `onPayload`.
+ *
+ * If the backend ignores the streaming request and answers with one plain
+ * (possibly pretty-printed) JSON document, that document is delivered as a
+ * single payload at the end.
+ *
+ * The stream is destroyed when no data arrives for a minute, so a stalled
+ * backend cannot hang the chat forever.
+ */
+export function readJsonStream(
+  stream: Readable,
+  onPayload: (payload: any) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    // Lines that did not parse on their own, kept until we know whether the
+    // body is a stream or a single document
+    let unparsed = "";
+    let streamed = false;
+    let done = false;
+
+    const onIdle = () =>
+      stream.destroy(new Error("Stream timed out waiting for data"));
+    let idleTimer = setTimeout(onIdle, IDLE_TIMEOUT_MS);
+
+    const finish = (error?: Error) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(idleTimer);
+      error ? reject(error) : resolve();
+    };
+
+    const handleLine = (rawLine: string) => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith(":") || line.startsWith("event:")) {
+        return;
+      }
+
+      const data = line.startsWith("data:") ? line.slice(5).trim() : line;
+      if (data === "[DONE]") {
+        streamed = true;
+        return;
+      }
+
+      try {
+        onPayload(JSON.parse(data));
+        streamed = true;
+      } catch {
+        if (!streamed) {
+          unparsed += `${rawLine}\n`;
+        }
+      }
+    };
+
+    stream.on("data", (chunk: Buffer | string) => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(onIdle, IDLE_TIMEOUT_MS);
+
+      buffer += chunk.toString();
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    });
+
+    stream.on("end", () => {
+      if (streamed) {
+        handleLine(buffer);
+      } else {
+        const body = (unparsed + buffer).trim();
+        if (body) {
+          try {
+            onPayload(JSON.parse(body));
+          } catch {
+            // Plain-text body: deliver it as-is
+            onPayload({ content: body });
+          }
+        }
+      }
+      finish();
+    });
+
+    stream.on("error", (error) => finish(error));
+    stream.on("close", () => finish());
+  });
+}
@@ -0,0 +1,307 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getTestFileName } from "../codeAnalysis/languageRegistry";
+
+export interface TestSetup {
+  /** e.g. "Jest", "pytest", "JUnit 5"; undefined when nothing was detected */
+  framework?: string;
+  /** Directory of the manifest the setup was read from */
+  projectRoot: string;
+  /** Where the test file for the source file goes */
+  testFilePath: string;
+  /** Shell command (run in `projectRoot`) that runs just that test file */
+  testCommand?: string;
+}
+
+/**
+ * Work out how the project around `sourcePath` is tested: which framework
+ * (from package.json, pom.xml/build.gradle, pytest.ini/pyproject.toml, ...)
+ * where its tests live by convention and how to run a single test file.
+ */
+export async function detectTestSetup(sourcePath: string, languageId: string): Promise<TestSetup> {
+  const defaultPath = getTestFileName(sourcePath, languageId);
+  const testName = path.basename(defaultPath);
+  const sourceDir = path.dirname(sourcePath);
+
+  switch (languageId) {
+    case "javascript":
+    case "javascriptreact":
+    case "typescript":
+    case "typescriptreact":
+      return detectJavaScript(sourceDir, testName);
+    case "java":
+      return detectJava(sourcePath, testName);
+    case "python":
+      return detectPython(sourceDir, testName);
+    case "go":
+      return {
+        framework: "go test",
+        projectRoot: sourceDir,
+        testFilePath: defaultPath,
+        testCommand: "go test -v .",
+      };
+    case "rust":
+      return detectRust(sourceDir, testName);
+    case "csharp":
+      return detectCSharp(sourceDir, testName);
+    default:
+      return { projectRoot: sourceDir, testFilePath: defaultPath };
+  }
+}
+
+/**
+ * `go test` runs a whole package, so the Go command is narrowed to the test
+ * functions in the test file with `-run`. Other commands already name the
+ * file or class and are returned as they are.
+ */
+export function scopeTestCommand(setup: TestSetup & { testCommand: string }, testNames: string[]): string {
+  if (setup.framework !== "go test") {
+    return setup.testCommand;
+  }
+  const functions = testNames.filter((name) => /^(?:Test|Example|Fuzz)\w*$/.test(name));
+  return functions.length ? `go test -v -run '^(${functions.join("|")})$' .` : setup.testCommand;
+}
+
+async function detectJavaScript(sourceDir: string, testName: string): Promise<TestSetup> {
+  const manifest = await findUp(sourceDir, ["package.json"]);
+  const root = manifest ? path.dirname(manifest) : sourceDir;
+
+  let framework: string | undefined;
+  if (manifest) {
+    const pkg = parseJson(await readText(manifest));
+    const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    const testScript: string = pkg?.scripts?.test ?? "";
+
+    if (deps.vitest || /\bvitest\b/.test(testScript)) framework = "Vitest";
+    else if (deps.jest || deps["ts-jest"] || pkg?.jest || /\bjest\b/.test(testScript)) framework = "Jest";
+    else if (deps.mocha || /\bmocha\b/.test(testScript)) framework = "Mocha";
+    else if (deps.jasmine || /\bjasmine\b/.test(testScript)) framework = "Jasmine";
+    else if (/node\s+--test/.test(testScript)) framework = "node:test";
+  }
+
+  const withCommand = (testFilePath: string): TestSetup => {
+    const file = quote(toPosix(path.relative(root, testFilePath)));
+    const commands: Record<string, string> = {
+      Vitest: `npx vitest run ${file} --reporter=verbose`,
+      Jest: `npx jest ${file} --verbose`,
+      Mocha: `npx mocha ${file}`,
+      Jasmine: `npx jasmine ${file}`,
+      "node:test": `node --test ${file}`,
+    };
+    return {
+      framework,
+      projectRoot: root,
+      testFilePath,
+      testCommand: framework ? commands[framework] : undefined,
+    };
+  };
+
+  // __tests__ next to the source wins, then a top-level test folder that
+  // mirrors the source tree, then the file next to the source
+  if (await isDirectory(path.join(sourceDir, "__tests__"))) {
+    return withCommand(path.join(sourceDir, "__tests__", testName));
+  }
+  for (const dir of ["test", "tests", "__tests__"]) {
+    if (await isDirectory(path.join(root, dir))) {
+      const relative = path.relative(root, sourceDir).replace(/^src(?:[\\/]|$)/, "");
+      return withCommand(path.join(root, dir, relative, testName));
+    }
+  }
+  return withCommand(path.join(sourceDir, testName));
+}
+
+async function detectJava(sourcePath: string, testName: string): Promise<TestSetup> {
+  const sourceDir = path.dirname(sourcePath);
+  const manifest = await findUp(sourceDir, ["pom.xml", "build.gradle", "build.gradle.kts"]);
+  const root = manifest ? path.dirname(manifest) : sourceDir;
+  const build = manifest ? await readText(manifest) : "";
+
+  let framework = "JUnit 5";
+  if (/testng/i.test(build)) framework = "TestNG";
+  else if (/junit-jupiter|org\.junit\.jupiter/.test(build)) framework = "JUnit 5";
+  else if (/junit:junit|<artifactId>junit<\/artifactId>/.test(build)) framework = "JUnit 4";
+
+  // Maven/Gradle layout: src/main/java/... -> src/test/java/...
+  const mainDir = `${path.sep}src${path.sep}main${path.sep}`;
+  const testDir = sourceDir.includes(mainDir)
+    ? sourceDir.replace(mainDir, `${path.sep}src${path.sep}test${path.sep}`)
+    : sourceDir;
+
+  const testClass = path.basename(testName, ".java");
+  let testCommand: string | undefined;
+  if (manifest && path.basename(manifest) === "pom.xml") {
+    testCommand = `mvn -q test -Dtest=${testClass}`;
+  } else if (manifest) {
+    const gradle = (await isFile(path.join(root, "gradlew"))) ? "./gradlew" : "gradle";
+    testCommand = `${gradle} test --tests ${testClass}`;
+  }
+  return { framework, projectRoot: root, testFilePath: path.join(testDir, testName), testCommand };
+}
+
+async function detectPython(sourceDir: string, testName: string): Promise<TestSetup> {
+  const manifest = await findUp(sourceDir, [
+    "pytest.ini",
+    "pyproject.toml",
+    "setup.cfg",
+    "tox.ini",
+    "setup.py",
+  ]);
+  const root = manifest ? path.dirname(manifest) : sourceDir;
+
+  const pytestIni = await readText(path.join(root, "pytest.ini"));
+  const pyproject = await readText(path.join(root, "pyproject.toml"));
+  const setupCfg = await readText(path.join(root, "setup.cfg"));
+  const toxIni = await readText(path.join(root, "tox.ini"));
+
+  const usesPytest =
+    pytestIni !== "" ||
+    /\[tool\.pytest|["']?pytest\b/.test(pyproject) ||
+    /\[tool:pytest\]/.test(setupCfg) ||
+    /\[pytest\]/.test(toxIni);
+  const framework = usesPytest ? "pytest" : "unittest";
+  const withCommand = (testFilePath: string): TestSetup => {
+    const file = quote(toPosix(path.relative(root, testFilePath)));
+    return {
+      framework,
+      projectRoot: root,
+      testFilePath,
+      testCommand: usesPytest ? `python -m pytest ${file} -v` : `python -m unittest -v ${file}`,
+    };
+  };
+
+  // testpaths = tests  /  testpaths = ["tests"]
+  const configured = `${pytestIni}\n${pyproject}\n${setupCfg}\n${toxIni}`.match(
+    /testpaths\s*=\s*\[?\s*["']?([\w./-]+)/
+  )?.[1];
+  for (const dir of [configured, "tests", "test"]) {
+    if (dir && (await isDirectory(path.join(root, dir)))) {
+      return withCommand(path.join(root, dir, testName));
+    }
+  }
+  return withCommand(path.join(sourceDir, testName));
+}
+
+async function detectRust(sourceDir: string, testName: string): Promise<TestSetup> {
+  const manifest = await findUp(sourceDir, ["Cargo.toml"]);
+  const root = manifest ? path.dirname(manifest) : sourceDir;
+  // Integration tests live in the crate's tests/ folder
+  return {
+    framework: "cargo test",
+    projectRoot: root,
+    testFilePath: manifest ? path.join(root, "tests", testName) : path.join(sourceDir, testName),
+    testCommand: manifest ? `cargo test --test ${path.basename(testName, ".rs")}` : undefined,
+  };
+}
+
+async function detectCSharp(sourceDir: string, testName: string): Promise<TestSetup> {
+  const project = await findUp(sourceDir, [/\.csproj$/]);
+  const projectRoot = project ? path.dirname(project) : sourceDir;
+  const projectName = project ? path.basename(project, ".csproj") : "";
+
+  // A sibling "<Project>.Tests" project, anywhere in the workspace
+  const candidates = await vscode.workspace.findFiles(
+    "**/*.csproj",
+    "**/{bin,obj,node_modules}/**",
+    50
+  );
+  const testProject =
+    candidates.find((uri) => path.basename(uri.fsPath, ".csproj") === `${projectName}.Tests`) ??
+    candidates.find((uri) => /\.Tests?\.csproj$/.test(uri.fsPath));
+
+  const csproj = testProject ? await readText(testProject.fsPath) : "";
+  let framework = "xUnit";
+  if (/NUnit/i.test(csproj)) framework = "NUnit";
+  else if (/MSTest/i.test(csproj)) framework = "MSTest";
+
+  if (!testProject) {
+    return { framework, projectRoot, testFilePath: path.join(sourceDir, testName) };
+  }
+  const relative = path.relative(projectRoot, sourceDir);
+  const testClass = path.basename(testName, ".cs");
+  return {
+    framework,
+    projectRoot,
+    testFilePath: path.join(path.dirname(testProject.fsPath), relative, testName),
+    testCommand:
+      `dotnet test ${quote(testProject.fsPath)} --filter "FullyQualifiedName~${testClass}"` +
+      ` --logger "console;verbosity=normal"`,
+  };
+}
+
+/**
+ * Nearest file named one of `names` (or matching a pattern) in `startDir` or
+ * a parent, without leaving the workspace folder.
+ */
+async function findUp(startDir: string, names: Array<string | RegExp>): Promise<string | undefined> {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(startDir));
+  const stop = folder?.uri.fsPath ?? path.parse(startDir).root;
+
+  let dir = startDir;
+  for (;;) {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dir));
+    } catch {
+      // Unreadable directory: keep walking up
+    }
+    for (const name of names) {
+      const match = entries.find(
+        ([entry, type]) =>
+          type === vscode.FileType.File &&
+          (typeof name === "string" ? entry === name : name.test(entry))
+      );
+      if (match) {
+        return path.join(dir, match[0]);
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === stop || parent === dir || !parent.startsWith(stop)) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+async function readText(filePath: string): Promise<string> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+    return Buffer.from(bytes).toString("utf8");
+  } catch {
+    return "";
+  }
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    const stat = await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+    return stat.type === vscode.FileType.File;
+  } catch {
+    return false;
+  }
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    const stat = await vscode.workspace.fs.stat(vscode.Uri.file(dirPath));
+    return stat.type === vscode.FileType.Directory;
+  } catch {
+    return false;
+  }
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+function quote(arg: string): string {
+  return /^[\w./-]+$/.test(arg) ? arg : `"${arg}"`;
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
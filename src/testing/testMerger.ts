@@ -0,0 +1,546 @@
+import Parser from "tree-sitter";
+import { ASTParser } from "../codeAnalysis/astParser";
+
+type SyntaxNode = Parser.SyntaxNode;
+
+export interface MergeResult {
+  code: string;
+  /** Tests, suites and imports taken from the generated code */
+  added: string[];
+  /** Generated tests the file already had, left out */
+  skipped: string[];
+  /** The files could not be parsed, so the generated code was appended */
+  appended: boolean;
+}
+
+/** A top-level or container member that can be matched between files. */
+interface Member {
+  key: string;
+  label: string;
+  /** Body to merge into when both files have the member */
+  body?: SyntaxNode;
+  /** Classes: the single class of a file may be merged even if its name differs */
+  isClass?: boolean;
+}
+
+interface Insertion {
+  offset: number;
+  text: string;
+  // Deeper insertions at the same offset go first
+  depth: number;
+}
+
+const IMPORT_TYPES = new Set([
+  "import_statement",
+  "import_from_statement",
+  "future_import_statement",
+  "import_declaration",
+  "using_directive",
+  "use_declaration",
+  "extern_crate_declaration",
+]);
+const PACKAGE_TYPES = new Set(["package_declaration", "package_clause"]);
+const FUNCTION_TYPES = new Set([
+  "function_declaration",
+  "generator_function_declaration",
+  "function_definition",
+  "method_declaration",
+  "method_definition",
+  "constructor_declaration",
+  "function_item",
+  "local_function_statement",
+]);
+const CLASS_TYPES = new Set([
+  "class_declaration",
+  "abstract_class_declaration",
+  "class_definition",
+  "struct_declaration",
+]);
+const MODULE_TYPES = new Set(["mod_item", "namespace_declaration"]);
+const DECLARATION_TYPES = new Set([
+  "lexical_declaration",
+  "variable_declaration",
+  "field_declaration",
+]);
+// Comments and Rust attributes (#[test]) belong to the item after them
+const LEADING_TYPES = new Set(["comment", "line_comment", "block_comment", "attribute_item"]);
+
+const SUITE_FUNCTIONS = new Set(["describe", "suite", "context"]);
+const TEST_FUNCTIONS = new Set(["it", "test", "specify"]);
+const HOOK_FUNCTIONS = new Set([
+  "beforeEach",
+  "afterEach",
+  "beforeAll",
+  "afterAll",
+  "before",
+  "after",
+  "setup",
+  "teardown",
+]);
+
+/**
+ * Merge generated tests into an existing test file without disturbing what is
+ * there. Both files are parsed; missing imports go after the existing ones,
+ * and suites, classes and modules present in both are merged member by
+ * member, so only tests the file does not have yet are added.
+ */
+export function mergeTestCode(
+  existing: string,
+  generated: string,
+  languageId: string,
+  parser: ASTParser
+): MergeResult {
+  if (!existing.trim()) {
+    return { code: generated, added: [], skipped: [], appended: false };
+  }
+
+  const existingTree = parser.parseTree(existing, languageId);
+  const generatedTree = parser.parseTree(generated, languageId);
+  if (
+    !existingTree ||
+    !generatedTree ||
+    existingTree.rootNode.hasError ||
+    generatedTree.rootNode.hasError
+  ) {
+    return {
+      code: `${existing.trimEnd()}\n\n${generated.trim()}\n`,
+      added: [],
+      skipped: [],
+      appended: true,
+    };
+  }
+
+  return new TestMerger(existing, generated, languageId).merge(
+    existingTree.rootNode,
+    generatedTree.rootNode
+  );
+}
+
+class TestMerger {
+  private insertions: Insertion[] = [];
+  private added: string[] = [];
+  private skipped: string[] = [];
+
+  constructor(
+    private readonly existing: string,
+    private readonly generated: string,
+    private readonly languageId: string
+  ) {}
+
+  public merge(existingRoot: SyntaxNode, generatedRoot: SyntaxNode): MergeResult {
+    this.mergeImports(existingRoot, generatedRoot);
+    this.mergeMembers(
+      existingRoot.namedChildren.filter((n) => !isImport(n) && !PACKAGE_TYPES.has(n.type)),
+      generatedRoot.namedChildren.filter((n) => !isImport(n) && !PACKAGE_TYPES.has(n.type)),
+      undefined,
+      undefined,
+      0
+    );
+
+    let code = this.existing;
+    const ordered = [...this.insertions].sort((a, b) => b.offset - a.offset || a.depth - b.depth);
+    for (const { offset, text } of ordered) {
+      code = code.slice(0, offset) + text + code.slice(offset);
+    }
+    if (!code.endsWith("\n")) {
+      code += "\n";
+    }
+
+    return { code, added: this.added, skipped: this.skipped, appended: false };
+  }
+
+  /** Add the generated file's imports the existing file lacks, after its last import. */
+  private mergeImports(existingRoot: SyntaxNode, generatedRoot: SyntaxNode): void {
+    const existingImports = existingRoot.namedChildren.filter(isImport);
+    const known = new Set(existingImports.flatMap(importKeys));
+    const bindings = new Set(existingRoot.namedChildren.flatMap(declaredNames));
+
+    const lines: string[] = [];
+    for (const node of generatedRoot.namedChildren.filter(isImport)) {
+      const keys = importKeys(node);
+      const missing = keys.filter((key) => !known.has(key));
+      if (missing.length === 0) continue;
+
+      if (node.descendantsOfType("import_spec").length > 0) {
+        // Go: one import per missing spec
+        for (const spec of missing) {
+          lines.push(`import ${spec}`);
+          this.added.push(`import ${spec}`);
+          known.add(spec);
+        }
+        continue;
+      }
+
+      const extended = this.extendNamedImport(node, existingImports, bindings);
+      if (extended?.length === 0) continue;
+      if (!extended) {
+        // Everything it binds is already imported under another spelling
+        const names = declaredNames(node);
+        if (names.length > 0 && names.every((name) => bindings.has(name))) continue;
+        lines.push(node.text);
+      }
+      missing.forEach((key) => known.add(key));
+      declaredNames(node).forEach((name) => bindings.add(name));
+      this.added.push(node.text.split("\n")[0]);
+    }
+    if (lines.length === 0) return;
+
+    const anchor =
+      existingImports[existingImports.length - 1] ??
+      existingRoot.namedChildren.find((n) => PACKAGE_TYPES.has(n.type));
+    if (anchor) {
+      this.insertions.push({ offset: anchor.endIndex, text: `\n${lines.join("\n")}`, depth: 0 });
+    } else {
+      this.insertions.push({ offset: 0, text: `${lines.join("\n")}\n\n`, depth: 0 });
+    }
+  }
+
+  /**
+   * JS/TS: `import { a, b } from "x"` when the file already imports `{ a }`
+   * from "x" becomes `import { a, b }` rather than a second import of `a`,
+   * which would not compile. Returns the specifiers added, or undefined when
+   * there is no such import to extend.
+   */
+  private extendNamedImport(
+    node: SyntaxNode,
+    existingImports: SyntaxNode[],
+    bindings: Set<string>
+  ): string[] | undefined {
+    const source = node.childForFieldName("source")?.text.slice(1, -1);
+    const specifiers = node.descendantsOfType("import_specifier");
+    if (node.type !== "import_statement" || !source || specifiers.length === 0) {
+      return undefined;
+    }
+
+    const target = existingImports.find(
+      (n) =>
+        n.childForFieldName("source")?.text.slice(1, -1) === source &&
+        n.descendantsOfType("named_imports").length > 0
+    );
+    if (!target) {
+      return undefined;
+    }
+
+    const missing = specifiers.filter((s) => !bindings.has(localName(s)));
+    if (missing.length > 0) {
+      const braces = target.descendantsOfType("named_imports")[0];
+      const hasItems = braces.namedChildren.length > 0;
+      // Before the closing brace, keeping the file's spacing style
+      const before = this.existing.slice(braces.startIndex, braces.endIndex - 1);
+      const trailingSpace = before.match(/\s*$/)![0];
+      const text = `${hasItems && !before.trimEnd().endsWith(",") ? ", " : ""}${missing
+        .map((s) => s.text)
+        .join(", ")}`;
+      this.insertions.push({
+        offset: braces.endIndex - 1 - trailingSpace.length,
+        text,
+        depth: 0,
+      });
+    }
+    return missing.map((s) => s.text);
+  }
+
+  /**
+   * Add generated members missing from a container. `body` is the existing
+   * container's body node (undefined for the file itself) and `generatedBody`
+   * the generated one, used to work out indentation for empty bodies.
+   */
+  private mergeMembers(
+    existingNodes: SyntaxNode[],
+    generatedNodes: SyntaxNode[],
+    body: SyntaxNode | undefined,
+    generatedBody: SyntaxNode | undefined,
+    depth: number
+  ): void {
+    const existingMembers = new Map<string, Member>();
+    for (const node of existingNodes) {
+      if (LEADING_TYPES.has(node.type)) continue;
+      const member = describeMember(node);
+      existingMembers.set(member.key, member);
+    }
+    const existingClasses = [...existingMembers.values()].filter((m) => m.isClass);
+    const generatedClasses = generatedNodes
+      .filter((n) => !LEADING_TYPES.has(n.type))
+      .map(describeMember)
+      .filter((m) => m.isClass);
+
+    const newGroups: Array<{ start: SyntaxNode; end: SyntaxNode }> = [];
+    let pending: SyntaxNode | undefined;
+
+    for (const node of generatedNodes) {
+      if (LEADING_TYPES.has(node.type)) {
+        pending = pending ?? node;
+        continue;
+      }
+
+      const member = describeMember(node);
+      let match = existingMembers.get(member.key);
+      // A test class named differently from the file's only test class
+      // (CalculatorTest vs CalculatorTests) still belongs in it
+      if (
+        !match &&
+        member.isClass &&
+        existingClasses.length === 1 &&
+        generatedClasses.length === 1
+      ) {
+        match = existingClasses[0];
+      }
+
+      if (!match) {
+        newGroups.push({ start: pending ?? node, end: node });
+        this.added.push(member.label);
+      } else if (match.body && member.body) {
+        this.mergeMembers(
+          match.body.namedChildren,
+          member.body.namedChildren,
+          match.body,
+          member.body,
+          depth + 1
+        );
+      } else if (!member.key.startsWith("text:")) {
+        this.skipped.push(member.label);
+      }
+      pending = undefined;
+    }
+
+    if (newGroups.length > 0) {
+      this.insertMembers(newGroups, existingNodes, body, generatedBody, depth);
+    }
+  }
+
+  private insertMembers(
+    groups: Array<{ start: SyntaxNode; end: SyntaxNode }>,
+    existingNodes: SyntaxNode[],
+    body: SyntaxNode | undefined,
+    generatedBody: SyntaxNode | undefined,
+    depth: number
+  ): void {
+    const isPython = this.languageId === "python";
+
+    if (!body) {
+      // End of file
+      const separator = isPython ? "\n\n\n" : "\n\n";
+      const text = groups.map((g) => this.reindent(g.start, g.end, "")).join(separator);
+      const offset = this.existing.trimEnd().length;
+      this.insertions.push({ offset, text: `${separator}${text}`, depth });
+      return;
+    }
+
+    const indent = this.memberIndent(existingNodes, body, generatedBody);
+    const text = groups.map((g) => this.reindent(g.start, g.end, indent)).join("\n\n");
+
+    if (!this.existing.slice(body.startIndex, body.endIndex).endsWith("}")) {
+      // Python block: after its last statement
+      this.insertions.push({ offset: body.endIndex, text: `\n\n${text}`, depth });
+      return;
+    }
+
+    const closeOffset = body.endIndex - 1;
+    const lineStart = this.existing.lastIndexOf("\n", closeOffset - 1) + 1;
+    const beforeBrace = this.existing.slice(lineStart, closeOffset);
+    if (/^\s*$/.test(beforeBrace)) {
+      // Closing brace on its own line: the new members go on the lines above it
+      const gap = existingNodes.length > 0 ? "\n" : "";
+      this.insertions.push({ offset: lineStart, text: `${gap}${text}\n`, depth });
+    } else {
+      // `{}` or `{ x }` on one line
+      const closingIndent = lineIndent(this.existing, closeOffset);
+      this.insertions.push({ offset: closeOffset, text: `\n${text}\n${closingIndent}`, depth });
+    }
+  }
+
+  /** Indentation of the members of an existing body, or one level deeper than its brace. */
+  private memberIndent(
+    existingNodes: SyntaxNode[],
+    body: SyntaxNode,
+    generatedBody: SyntaxNode | undefined
+  ): string {
+    if (existingNodes.length > 0) {
+      return lineIndent(this.existing, existingNodes[0].startIndex);
+    }
+
+    let unit = "    ";
+    const firstGenerated = generatedBody?.namedChildren[0];
+    if (generatedBody && firstGenerated) {
+      const outer = lineIndent(this.generated, generatedBody.startIndex);
+      const inner = lineIndent(this.generated, firstGenerated.startIndex);
+      if (inner.length > outer.length) unit = inner.slice(outer.length);
+    }
+    return lineIndent(this.existing, body.startIndex) + unit;
+  }
+
+  /** Generated text from `start` to `end`, moved to `indent`. */
+  private reindent(start: SyntaxNode, end: SyntaxNode, indent: string): string {
+    const from = lineIndent(this.generated, start.startIndex);
+    const lines = this.generated.slice(start.startIndex, end.endIndex).split("\n");
+    return lines
+      .map((line, i) => {
+        if (i === 0) return indent + line;
+        if (!line.trim()) return "";
+        return line.startsWith(from) ? indent + line.slice(from.length) : indent + line.trimStart();
+      })
+      .join("\n");
+  }
+}
+
+function isImport(node: SyntaxNode): boolean {
+  if (IMPORT_TYPES.has(node.type)) return true;
+  // const x = require("x")
+  return (
+    DECLARATION_TYPES.has(node.type) &&
+    /^\s*(?:const|let|var)\b[^=]*=\s*require\(/.test(node.text)
+  );
+}
+
+/** What identifies an import, so duplicates can be recognised despite formatting. */
+function importKeys(node: SyntaxNode): string[] {
+  const specs = node.descendantsOfType("import_spec");
+  if (specs.length > 0) {
+    return specs.map((spec) => spec.text);
+  }
+  return [normalize(node.text).replace(/;$/, "")];
+}
+
+/** Names a top-level statement binds: imported names, variables, functions and classes. */
+function declaredNames(node: SyntaxNode): string[] {
+  if (node.type === "import_statement") {
+    const clause = node.namedChildren.find((n) => n.type === "import_clause");
+    if (!clause) return [];
+    const names: string[] = [];
+    for (const child of clause.namedChildren) {
+      if (child.type === "identifier") names.push(child.text);
+      if (child.type === "namespace_import") {
+        const id = child.namedChildren.find((n) => n.type === "identifier");
+        if (id) names.push(id.text);
+      }
+    }
+    return [...names, ...node.descendantsOfType("import_specifier").map(localName)];
+  }
+  if (DECLARATION_TYPES.has(node.type)) {
+    return node
+      .descendantsOfType("variable_declarator")
+      .flatMap((d) => {
+        const name = d.childForFieldName("name") ?? d.firstNamedChild;
+        if (!name) return [];
+        return name.type === "identifier"
+          ? [name.text]
+          : name.descendantsOfType(["identifier", "shorthand_property_identifier_pattern"]).map((n) => n.text);
+      });
+  }
+  if (node.type === "import_from_statement") {
+    // from x import a, b as c
+    return node
+      .childrenForFieldName("name")
+      .map((n) => (n.type === "aliased_import" ? n.childForFieldName("alias") ?? n : n).text);
+  }
+  const name = node.childForFieldName("name");
+  return name && (FUNCTION_TYPES.has(node.type) || CLASS_TYPES.has(node.type)) ? [name.text] : [];
+}
+
+function localName(specifier: SyntaxNode): string {
+  return (specifier.childForFieldName("alias") ?? specifier.childForFieldName("name"))?.text ?? specifier.text;
+}
+
+function describeMember(node: SyntaxNode): Member {
+  // Python decorators wrap the definition they apply to
+  const target =
+    node.type === "decorated_definition" ? node.childForFieldName("definition") ?? node : node;
+  const name = target.childForFieldName("name")?.text;
+
+  if (name && FUNCTION_TYPES.has(target.type)) {
+    return { key: `fn:${name}`, label: name };
+  }
+  if (name && (CLASS_TYPES.has(target.type) || MODULE_TYPES.has(target.type))) {
+    return {
+      key: `${target.type}:${name}`,
+      label: name,
+      body: target.childForFieldName("body") ?? undefined,
+      isClass: CLASS_TYPES.has(target.type),
+    };
+  }
+
+  const testCall = describeTestCall(target);
+  if (testCall) {
+    return testCall;
+  }
+
+  const names = DECLARATION_TYPES.has(target.type) ? declaredNames(target) : [];
+  if (names.length > 0) {
+    return { key: `var:${names.join(",")}`, label: names.join(", ") };
+  }
+
+  return { key: `text:${normalize(node.text)}`, label: node.text.split("\n")[0].trim() };
+}
+
+/** describe("...", () => {...}), it("...", ...), beforeEach(...) and their .only/.each forms. */
+function describeTestCall(node: SyntaxNode): Member | undefined {
+  const call = node.type === "expression_statement" ? node.firstNamedChild : null;
+  if (!call || call.type !== "call_expression") return undefined;
+
+  let callee = call.childForFieldName("function");
+  // describe.each(table)("title", fn): the callee is itself a call
+  if (callee?.type === "call_expression") callee = callee.childForFieldName("function");
+  // it.only, describe.skip
+  const base = callee?.type === "member_expression" ? callee.childForFieldName("object") : callee;
+  const fnName = base?.text ?? "";
+  const args = call.childForFieldName("arguments")?.namedChildren ?? [];
+
+  if (HOOK_FUNCTIONS.has(fnName)) {
+    return { key: `hook:${fnName}`, label: fnName };
+  }
+
+  const titleNode = args[0];
+  if (!titleNode || !/string/.test(titleNode.type)) return undefined;
+  const title = titleNode.text.slice(1, -1);
+
+  if (SUITE_FUNCTIONS.has(fnName)) {
+    const callback = args.find((a) =>
+      ["arrow_function", "function_expression", "function"].includes(a.type)
+    );
+    const body = callback?.childForFieldName("body");
+    return {
+      key: `suite:${title}`,
+      label: title,
+      body: body?.type === "statement_block" ? body : undefined,
+    };
+  }
+  if (TEST_FUNCTIONS.has(fnName)) {
+    return { key: `test:${title}`, label: title };
+  }
+  return undefined;
+}
+
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart, offset).match(/^[ \t]*/)![0];
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Names of the tests and test functions in a file, including those nested in
+ * suites and classes; used to tell the model what already exists.
+ */
+export function listTests(code: string, languageId: string, parser: ASTParser): string[] {
+  const tree = parser.parseTree(code, languageId);
+  if (!tree) {
+    return [];
+  }
+
+  const names: string[] = [];
+  const visit = (nodes: SyntaxNode[], prefix: string) => {
+    for (const node of nodes) {
+      if (LEADING_TYPES.has(node.type) || isImport(node)) continue;
+      const member = describeMember(node);
+      if (member.body) {
+        visit(member.body.namedChildren, `${prefix}${member.label} > `);
+      } else if (member.key.startsWith("fn:") || member.key.startsWith("test:")) {
+        names.push(`${prefix}${member.label}`);
+      }
+    }
+  };
+  visit(tree.rootNode.namedChildren, "");
+  return names;
+}
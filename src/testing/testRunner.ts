@@ -0,0 +1,311 @@
+import * as vscode from "vscode";
+import { askLLM } from "../aiService";
+import { ASTParser } from "../codeAnalysis/astParser";
+import {
+  CommandResult,
+  approveCommand,
+  describeOutcome,
+  executeCommand,
+  runCommandWithApproval,
+} from "../commandRunner";
+import { computeHunks, splitLines } from "../diff/lineDiff";
+import { stripCodeFences } from "../editing/codeBlocks";
+import { TestSetup, scopeTestCommand } from "./testFramework";
+import { listTests } from "./testMerger";
+
+export interface TestResults {
+  passed: string[];
+  failed: string[];
+}
+
+export interface RepairAttempt {
+  attempt: number;
+  linesAdded: number;
+  linesRemoved: number;
+  /** Why the attempt changed nothing, e.g. the reply did not parse */
+  note?: string;
+}
+
+export interface TestRunReport {
+  command: string;
+  /** The last run exited with code 0 */
+  passed: boolean;
+  results: TestResults;
+  attempts: RepairAttempt[];
+  /** Output of the last run */
+  output: string;
+}
+
+export interface RepairOptions {
+  setup: TestSetup & { testCommand: string };
+  testUri: vscode.Uri;
+  languageId: string;
+  functionName: string;
+  functionCode: string;
+  sourcePath: string;
+  parser: ASTParser;
+  maxAttempts: number;
+  progress?: vscode.Progress<{ message?: string }>;
+}
+
+// Failure output beyond this is cut from the front; the end usually has the summary
+const MAX_OUTPUT_IN_PROMPT = 6000;
+const MAX_OUTPUT_IN_REPORT = 3000;
+// Changed lines shown when asking to run a repaired test file
+const MAX_DIFF_LINES_IN_APPROVAL = 40;
+
+export function getTestRunConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    runAfterGenerate: config.get<boolean>("tests.runAfterGenerate") ?? false,
+    maxRepairAttempts: config.get<number>("tests.maxRepairAttempts") ?? 2,
+  };
+}
+
+/**
+ * Run the test file and, while it fails, send the failures back to the model
+ * together with the function under test and apply the corrected test file.
+ * Every run needs the user's approval: each repair is new AI-written code, so
+ * its changes are shown before it is applied and run.
+ *
+ * Returns `undefined` when the command was refused or the user declined.
+ */
+export async function runAndRepairTests(options: RepairOptions): Promise<TestRunReport | undefined> {
+  const { setup, testUri, progress } = options;
+
+  // Test runners read from disk
+  const document = await vscode.workspace.openTextDocument(testUri);
+  await document.save();
+  const command = scopeTestCommand(setup, listTests(document.getText(), options.languageId, options.parser));
+
+  progress?.report({ message: "Running tests..." });
+  let result = await runCommandWithApproval(command, vscode.workspace.isTrusted, {
+    cwd: setup.projectRoot,
+    prompt: "Run the generated tests?",
+  });
+  if (!result) {
+    return undefined;
+  }
+
+  const attempts: RepairAttempt[] = [];
+  while (!succeeded(result) && attempts.length < options.maxAttempts) {
+    const attempt = attempts.length + 1;
+    progress?.report({
+      message: `Tests failed, repairing (attempt ${attempt}/${options.maxAttempts})...`,
+    });
+
+    const before = document.getText();
+    const response = await askLLM(buildRepairPrompt(options, before, result), { command: "test repair" });
+    if (response.startsWith("❌")) {
+      attempts.push({ attempt, linesAdded: 0, linesRemoved: 0, note: response });
+      break;
+    }
+
+    const fixed = stripCodeFences(response);
+    // A reply that does not parse would only replace one failure with another
+    const tree = options.parser.parseTree(fixed, options.languageId);
+    if (!fixed.trim() || tree?.rootNode.hasError) {
+      attempts.push({ attempt, linesAdded: 0, linesRemoved: 0, note: "reply did not parse, not applied" });
+      continue;
+    }
+    if (fixed === before) {
+      attempts.push({ attempt, linesAdded: 0, linesRemoved: 0, note: "no changes suggested" });
+      continue;
+    }
+
+    const approved = await approveCommand(command, vscode.workspace.isTrusted, {
+      prompt: `Apply the AI's repair of the tests (attempt ${attempt}) and run them again?`,
+      detail: formatChanges(before, fixed),
+    });
+    if (!approved) {
+      attempts.push({ attempt, linesAdded: 0, linesRemoved: 0, note: "repair declined, not applied" });
+      break;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      testUri,
+      new vscode.Range(document.positionAt(0), document.positionAt(before.length)),
+      fixed
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      attempts.push({ attempt, linesAdded: 0, linesRemoved: 0, note: "could not edit the test file" });
+      break;
+    }
+    await document.save();
+    attempts.push({ attempt, ...countChangedLines(before, document.getText()) });
+
+    progress?.report({ message: "Re-running tests..." });
+    result = await executeCommand(command, setup.projectRoot);
+  }
+
+  const output = `${result.stdout}\n${result.stderr}`.trim();
+  return {
+    command,
+    passed: succeeded(result),
+    results: parseTestResults(output),
+    attempts,
+    output,
+  };
+}
+
+function succeeded(result: CommandResult): boolean {
+  return !result.timedOut && result.exitCode === 0;
+}
+
+function buildRepairPrompt(options: RepairOptions, testCode: string, result: CommandResult): string {
+  const output = stripAnsi(`${result.stdout}\n${result.stderr}`.trim());
+  const tail =
+    output.length > MAX_OUTPUT_IN_PROMPT
+      ? `... (earlier output omitted)\n${output.slice(-MAX_OUTPUT_IN_PROMPT)}`
+      : output;
+  const status = describeOutcome(result);
+
+  return `
+The unit tests below fail. Fix the TEST FILE so that it compiles and its tests pass.
+
+Function under test: ${options.functionName} (${vscode.workspace.asRelativePath(options.sourcePath)})
+\`\`\`${options.languageId}
+${options.functionCode}
+\`\`\`
+
+Test file: ${vscode.workspace.asRelativePath(options.testUri)}
+\`\`\`${options.languageId}
+${testCode}
+\`\`\`
+
+\`${result.command}\` (${status}):
+\`\`\`
+${tail}
+\`\`\`
+
+Requirements:
+1. Do not change the function under test; fix imports, setup and expectations in the tests
+2. If a test expects behaviour the function clearly does not have, correct the expectation
+3. Keep tests that already pass unchanged
+4. Return the COMPLETE corrected test file
+
+Generate ONLY the test code, no explanations.
+`;
+}
+
+/** The changed lines as +/- lines, cut to MAX_DIFF_LINES_IN_APPROVAL. */
+function formatChanges(before: string, after: string): string {
+  const original = splitLines(before);
+  const proposed = splitLines(after);
+  const lines: string[] = [];
+  for (const hunk of computeHunks(original, proposed)) {
+    lines.push(`@@ line ${hunk.proposedStart + 1}`);
+    for (const line of original.slice(hunk.originalStart, hunk.originalStart + hunk.originalLength)) {
+      lines.push(`- ${line}`);
+    }
+    for (const line of proposed.slice(hunk.proposedStart, hunk.proposedStart + hunk.proposedLength)) {
+      lines.push(`+ ${line}`);
+    }
+  }
+  if (lines.length <= MAX_DIFF_LINES_IN_APPROVAL) {
+    return lines.join("\n");
+  }
+  const more = lines.length - MAX_DIFF_LINES_IN_APPROVAL;
+  return `${lines.slice(0, MAX_DIFF_LINES_IN_APPROVAL).join("\n")}\n... (${more} more changed lines)`;
+}
+
+function countChangedLines(before: string, after: string): { linesAdded: number; linesRemoved: number } {
+  const hunks = computeHunks(splitLines(before), splitLines(after));
+  return {
+    linesAdded: hunks.reduce((sum, h) => sum + h.proposedLength, 0),
+    linesRemoved: hunks.reduce((sum, h) => sum + h.originalLength, 0),
+  };
+}
+
+// Per-test result lines of the common runners (verbose modes)
+const RESULT_PATTERNS: Array<[RegExp, keyof TestResults]> = [
+  // Jest, Vitest, Mocha: "✓ adds numbers (3 ms)", "✕ adds numbers"
+  [/^\s*[✓✔√]\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/, "passed"],
+  [/^\s*[✕✗×✖]\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/, "failed"],
+  // pytest -v: "tests/test_calc.py::test_add PASSED"
+  [/^(\S+::\S+)\s+PASSED\b/, "passed"],
+  [/^(\S+::\S+)\s+(?:FAILED|ERROR)\b/, "failed"],
+  // unittest -v: "test_add (test_calc.TestCalc) ... ok"
+  [/^(\w+) \([\w.]+\) \.\.\. ok$/, "passed"],
+  [/^(\w+) \([\w.]+\) \.\.\. (?:FAIL|ERROR)$/, "failed"],
+  // go test -v
+  [/^\s*--- PASS: (\S+)/, "passed"],
+  [/^\s*--- FAIL: (\S+)/, "failed"],
+  // cargo test: "test adds ... ok"
+  [/^test (\S+) \.\.\. ok$/, "passed"],
+  [/^test (\S+) \.\.\. FAILED$/, "failed"],
+  // dotnet test: "  Passed Calc.Tests.CalcTests.Adds [1 ms]"
+  [/^\s*Passed (\S+) \[/, "passed"],
+  [/^\s*Failed (\S+) \[/, "failed"],
+  // Gradle: "CalcTest > adds() FAILED"
+  [/^(\S+ > .+?) PASSED$/, "passed"],
+  [/^(\S+ > .+?) FAILED$/, "failed"],
+  // Maven Surefire: "[ERROR]   CalcTest.addsNegative:12 expected: <1> but was: <2>"
+  [/^\[ERROR\]\s+(\w+\.\w+):\d+/, "failed"],
+];
+
+/** Names of passing and failing tests, as far as the runner's output shows them. */
+export function parseTestResults(output: string): TestResults {
+  const passed = new Set<string>();
+  const failed = new Set<string>();
+
+  for (const line of stripAnsi(output).split(/\r?\n/)) {
+    for (const [pattern, status] of RESULT_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        (status === "passed" ? passed : failed).add(match[1].trim());
+        break;
+      }
+    }
+  }
+
+  // A test that failed in any run of the output counts as failing
+  return { passed: [...passed].filter((name) => !failed.has(name)), failed: [...failed] };
+}
+
+/** Markdown summary of a test run for the chat panel. */
+export function formatTestReport(report: TestRunReport, functionName: string, testPath: string): string {
+  const repairs = report.attempts.length;
+  const afterRepairs = repairs > 0 ? ` after ${repairs} repair attempt(s)` : "";
+  const lines = [
+    `**Generated tests for \`${functionName}()\`** in \`${testPath}\``,
+    "",
+    report.passed ? `✅ Tests pass${afterRepairs}` : `❌ Tests still fail${afterRepairs}`,
+    `Command: \`${report.command}\``,
+  ];
+
+  const { passed, failed } = report.results;
+  if (passed.length > 0) {
+    lines.push("", `Passing (${passed.length}):`, ...passed.map((name) => `- ✓ ${name}`));
+  }
+  if (failed.length > 0) {
+    lines.push("", `Failing (${failed.length}):`, ...failed.map((name) => `- ✕ ${name}`));
+  }
+
+  if (repairs > 0) {
+    lines.push("", "Changes to the test file:");
+    for (const attempt of report.attempts) {
+      lines.push(
+        `- Attempt ${attempt.attempt}: ${
+          attempt.note ?? `+${attempt.linesAdded} / -${attempt.linesRemoved} lines`
+        }`
+      );
+    }
+  }
+
+  if (!report.passed && report.output) {
+    const output = stripAnsi(report.output);
+    const tail =
+      output.length > MAX_OUTPUT_IN_REPORT
+        ? `... (earlier output omitted)\n${output.slice(-MAX_OUTPUT_IN_REPORT)}`
+        : output;
+    lines.push("", "Output:", "```", tail, "```");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "");
+}
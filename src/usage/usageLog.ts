@@ -0,0 +1,123 @@
+export interface UsageRecord {
+  /** ISO timestamp of the response */
+  time: string;
+  /** Id of the VS Code session (extension activation) that made the request */
+  session: string;
+  command: string;
+  provider: string;
+  model: string;
+  input: number;
+  output: number;
+  total: number;
+  /** US dollars from the configured pricing; 0 when the model has no price */
+  cost: number;
+  /** Counted from the text because the backend reported no usage */
+  estimated: boolean;
+}
+
+/** US dollars per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  input: number;
+  output: number;
+  total: number;
+  cost: number;
+}
+
+/**
+ * Price of a model: an exact match, otherwise the longest configured name
+ * the model starts with, so "gpt-4o" also prices "gpt-4o-2024-08-06".
+ */
+export function findPrice(model: string, pricing: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+export function computeCost(input: number, output: number, price?: ModelPrice): number {
+  if (!price) {
+    return 0;
+  }
+  return (input * (price.input ?? 0) + output * (price.output ?? 0)) / 1_000_000;
+}
+
+/** Local calendar day of a timestamp, as YYYY-MM-DD. */
+export function dayKey(time: string | Date): string {
+  const date = typeof time === "string" ? new Date(time) : time;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = { requests: 0, input: 0, output: 0, total: 0, cost: 0 };
+  for (const record of records) {
+    totals.requests++;
+    totals.input += record.input;
+    totals.output += record.output;
+    totals.total += record.total;
+    totals.cost += record.cost;
+  }
+  return totals;
+}
+
+/** Totals per key, largest total first. */
+export function groupUsage(
+  records: UsageRecord[],
+  key: (record: UsageRecord) => string
+): Array<{ key: string; totals: UsageTotals }> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const name = key(record);
+    const group = groups.get(name);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(name, [record]);
+    }
+  }
+  return [...groups]
+    .map(([name, group]) => ({ key: name, totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.total - a.totals.total);
+}
+
+const CSV_COLUMNS: Array<keyof UsageRecord> = [
+  "time",
+  "session",
+  "command",
+  "provider",
+  "model",
+  "input",
+  "output",
+  "total",
+  "cost",
+  "estimated",
+];
+
+export function toCsv(records: UsageRecord[]): string {
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = records.map((record) => CSV_COLUMNS.map((column) => escape(record[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+/** 12345 -> "12.3k" */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,105 @@
+import { UsageRecord, UsageTotals, dayKey, formatCost, groupUsage, sumUsage } from "./usageLog";
+
+export interface UsageView {
+  session: UsageRecord[];
+  today: UsageRecord[];
+  /** Everything in the log, oldest first */
+  all: UsageRecord[];
+  /** e.g. "45.6k of 100k tokens used today (warning at 80k)"; undefined without budgets */
+  budget?: string;
+}
+
+const DAYS_SHOWN = 14;
+
+/** HTML of the "AI Token Usage" panel: totals, then breakdowns per command, day and model. */
+export function renderUsagePanel(view: UsageView): string {
+  const days = groupUsage(view.all, (r) => dayKey(r.time))
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, DAYS_SHOWN);
+  const shownDays = new Set(days.map((d) => d.key));
+  const recent = sumUsage(view.all.filter((r) => shownDays.has(dayKey(r.time))));
+  const estimated = view.all.some((r) => r.estimated);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';" />
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h2 { font-size: 1.1em; margin-top: 24px; }
+    .cards { display: flex; gap: 12px; flex-wrap: wrap; }
+    .card { border: 1px solid var(--vscode-panel-border); border-radius: 4px; padding: 8px 12px; min-width: 160px; }
+    .card .value { font-size: 1.4em; font-weight: 600; }
+    .muted { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    table { border-collapse: collapse; min-width: 60%; }
+    th, td { text-align: right; padding: 4px 10px; border-bottom: 1px solid var(--vscode-panel-border); }
+    th:first-child, td:first-child { text-align: left; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 12px; cursor: pointer; margin-right: 8px; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  <h1>AI Token Usage</h1>
+  <div class="cards">
+    ${card("This session", sumUsage(view.session))}
+    ${card("Today", sumUsage(view.today))}
+    ${card(`Last ${days.length} day(s) with usage`, recent)}
+  </div>
+  ${view.budget ? `<p>Budget: ${escapeHtml(view.budget)}</p>` : ""}
+
+  <h2>Today by command</h2>
+  ${table("Command", groupUsage(view.today, (r) => r.command))}
+
+  <h2>This session by command</h2>
+  ${table("Command", groupUsage(view.session, (r) => r.command))}
+
+  <h2>By day</h2>
+  ${table("Day", days)}
+
+  <h2>By model</h2>
+  ${table("Model", groupUsage(view.all, (r) => `${r.provider} / ${r.model}`))}
+
+  ${estimated ? `<p class="muted">Some requests got no token counts from the backend; those are estimated from the text.</p>` : ""}
+  <p>
+    <button data-format="csv">Export CSV</button>
+    <button data-format="json">Export JSON</button>
+  </p>
+  <script>
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll("button[data-format]").forEach((button) =>
+      button.addEventListener("click", () => vscode.postMessage({ type: "export", format: button.dataset.format }))
+    );
+  </script>
+</body>
+</html>`;
+}
+
+function card(title: string, totals: UsageTotals): string {
+  return `<div class="card">
+      <div class="muted">${escapeHtml(title)}</div>
+      <div class="value">${totals.total.toLocaleString()} tokens</div>
+      <div class="muted">${totals.requests} request(s)${totals.cost > 0 ? ` · ${formatCost(totals.cost)}` : ""}</div>
+    </div>`;
+}
+
+function table(label: string, rows: Array<{ key: string; totals: UsageTotals }>): string {
+  if (rows.length === 0) {
+    return `<p class="muted">No requests yet.</p>`;
+  }
+  const body = rows
+    .map(
+      ({ key, totals }) =>
+        `<tr><td>${escapeHtml(key)}</td><td>${totals.requests}</td><td>${totals.input.toLocaleString()}</td>` +
+        `<td>${totals.output.toLocaleString()}</td><td>${totals.total.toLocaleString()}</td><td>${formatCost(totals.cost)}</td></tr>`
+    )
+    .join("\n");
+  return `<table>
+    <tr><th>${label}</th><th>Requests</th><th>Input</th><th>Output</th><th>Total</th><th>Cost</th></tr>
+    ${body}
+  </table>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
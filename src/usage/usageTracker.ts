@@ -0,0 +1,408 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { UsageEvent, UsageRecorder, setUsageRecorder } from "../aiService";
+import {
+  ModelPrice,
+  UsageRecord,
+  computeCost,
+  dayKey,
+  findPrice,
+  formatCost,
+  formatTokens,
+  sumUsage,
+  toCsv,
+} from "./usageLog";
+import { UsageView, renderUsagePanel } from "./usagePanel";
+
+type BudgetUnit = "tokens" | "cost";
+type ExportFormat = "csv" | "json";
+
+const LOG_FILE_NAME = "usage-log.jsonl";
+const RETENTION_DAYS = 90;
+
+function getUsageConfig() {
+  const config = vscode.workspace.getConfiguration("aiDevAssistant");
+  return {
+    showStatusBar: config.get<boolean>("usage.showStatusBar") ?? true,
+    pricing: config.get<Record<string, ModelPrice>>("usage.pricing") ?? {},
+    budgetUnit: config.get<BudgetUnit>("usage.budgetUnit") ?? "tokens",
+    softBudget: config.get<number>("usage.dailySoftBudget") ?? 0,
+    hardBudget: config.get<number>("usage.dailyHardBudget") ?? 0,
+  };
+}
+
+/**
+ * Records the token usage of every request with the command that made it.
+ * The log is a JSON Lines file in global storage, so the daily totals (and
+ * the budgets checked against them) span all workspaces; every open window
+ * appends to it and picks up the others' records before checking a budget.
+ * Shown in a status bar item and a breakdown panel, and exportable as CSV or
+ * JSON.
+ */
+export class UsageTracker implements UsageRecorder, vscode.Disposable {
+  private records: UsageRecord[] = [];
+  // Unique per window, which tells this window's records from the others' in the shared log
+  private readonly session = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+  private statusBar?: vscode.StatusBarItem;
+  private panel?: vscode.WebviewPanel;
+  // Day the soft budget warning was last shown, so it appears once a day
+  private softWarningDay?: string;
+  // Appends are chained so records land in the file in order
+  private writing: Promise<void> = Promise.resolve();
+  // Bytes of the log read so far; what lies beyond was written since
+  private readOffset = 0;
+
+  constructor(private readonly storageUri?: vscode.Uri) {}
+
+  public register(context: vscode.ExtensionContext): void {
+    this.statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.statusBar.command = "aiDevAssistant.showUsage";
+
+    context.subscriptions.push(
+      this,
+      this.statusBar,
+      vscode.commands.registerCommand("aiDevAssistant.showUsage", () => this.showPanel()),
+      vscode.commands.registerCommand("aiDevAssistant.exportUsage", (format?: ExportFormat) =>
+        this.exportLog(format)
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("aiDevAssistant.usage")) {
+          this.refresh();
+        }
+      }),
+      // Show what other windows spent meanwhile
+      vscode.window.onDidChangeWindowState((state) => {
+        if (state.focused) {
+          this.readNewRecords();
+          this.refresh();
+        }
+      })
+    );
+
+    setUsageRecorder(this);
+    this.load();
+    this.refresh();
+  }
+
+  public checkBudget(): string | undefined {
+    this.readNewRecords();
+    const { budgetUnit, hardBudget } = getUsageConfig();
+    const spent = this.spentToday(budgetUnit);
+    if (hardBudget <= 0 || spent < hardBudget) {
+      return undefined;
+    }
+    return (
+      `Daily AI budget reached: ${formatAmount(spent, budgetUnit)} of ${formatAmount(hardBudget, budgetUnit)} ` +
+      "used today. Raise aiDevAssistant.usage.dailyHardBudget to continue."
+    );
+  }
+
+  public record(event: UsageEvent): void {
+    const { input, output } = event.usage;
+    const record: UsageRecord = {
+      time: new Date().toISOString(),
+      session: this.session,
+      command: event.command,
+      provider: event.provider,
+      model: event.model,
+      input,
+      output,
+      total: event.usage.total || input + output,
+      cost: computeCost(input, output, findPrice(event.model, getUsageConfig().pricing)),
+      estimated: event.estimated,
+    };
+    this.records.push(record);
+    this.append(record);
+    this.refresh();
+    this.warnAboutSoftBudget();
+  }
+
+  private spentToday(unit: BudgetUnit): number {
+    const today = sumUsage(this.todayRecords());
+    return unit === "cost" ? today.cost : today.total;
+  }
+
+  private todayRecords(): UsageRecord[] {
+    const today = dayKey(new Date());
+    return this.records.filter((r) => dayKey(r.time) === today);
+  }
+
+  private warnAboutSoftBudget(): void {
+    const { budgetUnit, softBudget } = getUsageConfig();
+    const today = dayKey(new Date());
+    const spent = this.spentToday(budgetUnit);
+    if (softBudget <= 0 || spent < softBudget || this.softWarningDay === today) {
+      return;
+    }
+
+    this.softWarningDay = today;
+    vscode.window
+      .showWarningMessage(
+        `AI Dev Assistant: ${formatAmount(spent, budgetUnit)} used today, over the ` +
+          `${formatAmount(softBudget, budgetUnit)} budget.`,
+        "Show Usage"
+      )
+      .then((choice) => {
+        if (choice === "Show Usage") {
+          this.showPanel();
+        }
+      });
+  }
+
+  private refresh(): void {
+    this.updateStatusBar();
+    if (this.panel) {
+      this.panel.webview.html = renderUsagePanel(this.buildView());
+    }
+  }
+
+  private updateStatusBar(): void {
+    const statusBar = this.statusBar;
+    if (!statusBar) return;
+
+    const { showStatusBar, budgetUnit, softBudget, hardBudget } = getUsageConfig();
+    if (!showStatusBar) {
+      statusBar.hide();
+      return;
+    }
+
+    const today = sumUsage(this.todayRecords());
+    const session = sumUsage(this.records.filter((r) => r.session === this.session));
+    const last = this.records.filter((r) => r.session === this.session).pop();
+    const spent = budgetUnit === "cost" ? today.cost : today.total;
+
+    statusBar.text = `$(pulse) ${formatTokens(today.total)}${today.cost > 0 ? ` · ${formatCost(today.cost)}` : ""}`;
+    statusBar.backgroundColor =
+      hardBudget > 0 && spent >= hardBudget
+        ? new vscode.ThemeColor("statusBarItem.errorBackground")
+        : softBudget > 0 && spent >= softBudget
+          ? new vscode.ThemeColor("statusBarItem.warningBackground")
+          : undefined;
+
+    const tooltip = new vscode.MarkdownString("**AI token usage**\n\n");
+    if (last) {
+      tooltip.appendMarkdown(`Last request: ${last.total.toLocaleString()} tokens (${last.command})\n\n`);
+    }
+    tooltip.appendMarkdown(
+      `This session: ${session.total.toLocaleString()} tokens in ${session.requests} request(s)\n\n` +
+        `Today: ${today.total.toLocaleString()} tokens in ${today.requests} request(s)` +
+        `${today.cost > 0 ? `, ${formatCost(today.cost)}` : ""}\n\n`
+    );
+    const budget = this.describeBudget();
+    if (budget) {
+      tooltip.appendMarkdown(`Budget: ${budget}\n\n`);
+    }
+    tooltip.appendMarkdown("Click for the breakdown per command");
+    statusBar.tooltip = tooltip;
+    statusBar.show();
+  }
+
+  private describeBudget(): string | undefined {
+    const { budgetUnit, softBudget, hardBudget } = getUsageConfig();
+    if (softBudget <= 0 && hardBudget <= 0) {
+      return undefined;
+    }
+    const spent = formatAmount(this.spentToday(budgetUnit), budgetUnit);
+    if (hardBudget <= 0) {
+      return `${spent} used today, warning at ${formatAmount(softBudget, budgetUnit)}`;
+    }
+    const warning = softBudget > 0 ? ` (warning at ${formatAmount(softBudget, budgetUnit)})` : "";
+    return `${spent} of ${formatAmount(hardBudget, budgetUnit)} used today${warning}`;
+  }
+
+  private buildView(): UsageView {
+    return {
+      session: this.records.filter((r) => r.session === this.session),
+      today: this.todayRecords(),
+      all: this.records,
+      budget: this.describeBudget(),
+    };
+  }
+
+  private showPanel(): void {
+    this.readNewRecords();
+    if (this.panel) {
+      this.refresh();
+      this.panel.reveal();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "aiDevAssistant.usage",
+      "AI Token Usage",
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    this.panel.webview.html = renderUsagePanel(this.buildView());
+    this.panel.webview.onDidReceiveMessage((message) => {
+      if (message.type === "export") {
+        void this.exportLog(message.format);
+      }
+    });
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+  }
+
+  private async exportLog(format?: ExportFormat): Promise<void> {
+    this.readNewRecords();
+    if (this.records.length === 0) {
+      vscode.window.showInformationMessage("No AI requests recorded yet.");
+      return;
+    }
+
+    const chosen =
+      format ??
+      (
+        await vscode.window.showQuickPick(
+          [
+            { label: "CSV", format: "csv" as const },
+            { label: "JSON", format: "json" as const },
+          ],
+          { placeHolder: "Export the token usage log as" }
+        )
+      )?.format;
+    if (!chosen) return;
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `ai-usage-${dayKey(new Date())}.${chosen}`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters: chosen === "csv" ? { CSV: ["csv"] } : { JSON: ["json"] },
+    });
+    if (!target) return;
+
+    const content = chosen === "csv" ? toCsv(this.records) : JSON.stringify(this.records, null, 2) + "\n";
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+    vscode.window.showInformationMessage(
+      `Exported ${this.records.length} request(s) to ${path.basename(target.fsPath)}`
+    );
+  }
+
+  private get logPath(): string | undefined {
+    return this.storageUri && path.join(this.storageUri.fsPath, LOG_FILE_NAME);
+  }
+
+  private load(): void {
+    this.pruneLog();
+    this.readNewRecords();
+  }
+
+  /**
+   * Drop records older than RETENTION_DAYS from the file. Only the lines read
+   * here are rewritten; whatever other windows appended in the meantime is
+   * carried over as is.
+   */
+  private pruneLog(): void {
+    const logPath = this.logPath;
+    if (!logPath) return;
+
+    try {
+      const bytes = fs.readFileSync(logPath);
+      // A line still being written by another window belongs to the tail
+      const complete = bytes.lastIndexOf(0x0a) + 1;
+      const lines = bytes
+        .subarray(0, complete)
+        .toString("utf8")
+        .split("\n")
+        .filter((line) => line.trim());
+      const kept = lines.filter((line) => parseRecord(line) !== undefined);
+      if (kept.length === lines.length) return;
+
+      const tail = fs.readFileSync(logPath).subarray(complete);
+      const pruned = Buffer.from(kept.map((line) => line + "\n").join(""), "utf8");
+      fs.writeFileSync(logPath, Buffer.concat([pruned, tail]));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.error("Failed to prune the usage log:", error);
+      }
+    }
+  }
+
+  /**
+   * Pick up the records written since the last read, mostly by other
+   * windows. The whole log is read again when it shrank because another
+   * window pruned it. This session's records are always the ones in memory.
+   */
+  private readNewRecords(): void {
+    const logPath = this.logPath;
+    if (!logPath) return;
+
+    let size: number;
+    try {
+      size = fs.statSync(logPath).size;
+    } catch {
+      return; // Nothing recorded yet
+    }
+    if (size === this.readOffset) return;
+
+    const start = size < this.readOffset ? 0 : this.readOffset;
+    let bytes: Buffer;
+    try {
+      bytes = readBytes(logPath, start, size);
+    } catch (error) {
+      console.error("Failed to read the usage log:", error);
+      return;
+    }
+    const complete = bytes.lastIndexOf(0x0a) + 1;
+    const others = bytes
+      .subarray(0, complete)
+      .toString("utf8")
+      .split("\n")
+      .map(parseRecord)
+      .filter((r): r is UsageRecord => r !== undefined && r.session !== this.session);
+
+    this.records =
+      start === 0
+        ? [...others, ...this.records.filter((r) => r.session === this.session)]
+        : [...this.records, ...others];
+    this.readOffset = start + complete;
+  }
+
+  private append(record: UsageRecord): void {
+    const logPath = this.logPath;
+    if (!logPath) return;
+
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(logPath), { recursive: true });
+        await fs.promises.appendFile(logPath, JSON.stringify(record) + "\n", "utf8");
+      } catch (error) {
+        console.error("Failed to write the usage log:", error);
+      }
+    });
+  }
+
+  public dispose(): void {
+    setUsageRecorder(undefined);
+    this.panel?.dispose();
+  }
+}
+
+/** A record from one line of the log; undefined for damaged or expired lines. */
+function parseRecord(line: string): UsageRecord | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const record: UsageRecord = JSON.parse(line);
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return Date.parse(record.time) >= cutoff ? record : undefined;
+  } catch {
+    return undefined; // A line cut short by a crash
+  }
+}
+
+function readBytes(filePath: string, start: number, end: number): Buffer {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(end - start);
+    const read = fs.readSync(fd, buffer, 0, buffer.length, start);
+    return buffer.subarray(0, read);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function formatAmount(amount: number, unit: BudgetUnit): string {
+  return unit === "cost" ? formatCost(amount) : `${formatTokens(amount)} tokens`;
+}
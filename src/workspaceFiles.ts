@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+/** Whether `uri` lies in one of the workspace folders; nothing outside them is edited. */
+export function isInWorkspace(uri: vscode.Uri): boolean {
+  return vscode.workspace.getWorkspaceFolder(uri) !== undefined;
+}
+
+/**
+ * Resolve a file name coming from the model or the webview (absolute path,
+ * workspace-relative path or bare file name) to a file in the workspace.
+ * Asks the user to pick when a bare name matches several files. Paths that
+ * lead outside the workspace folders (absolute or via "..") resolve to
+ * nothing.
+ */
+export async function resolveWorkspaceFile(
+  fileName: string | undefined
+): Promise<vscode.Uri | undefined> {
+  if (!fileName) {
+    return undefined;
+  }
+
+  const normalized = fileName.trim().replace(/\\/g, "/");
+
+  if (path.isAbsolute(normalized)) {
+    const uri = vscode.Uri.file(normalized);
+    return isInWorkspace(uri) && (await fileExists(uri)) ? uri : undefined;
+  }
+
+  // Relative to one of the workspace folders
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.joinPath(folder.uri, normalized);
+    if (isInWorkspace(uri) && (await fileExists(uri))) {
+      return uri;
+    }
+  }
+
+  // Anywhere in the workspace, matching the trailing path segments
+  const baseName = path.posix.basename(normalized);
+  const candidates = (
+    await vscode.workspace.findFiles(`**/${baseName}`, "**/node_modules/**", 20)
+  ).filter((uri) => uri.path.endsWith(`/${normalized}`));
+
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((uri) => ({
+      label: vscode.workspace.asRelativePath(uri),
+      uri,
+    })),
+    { placeHolder: `Several files match "${fileName}". Which one?` }
+  );
+  return picked?.uri;
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    return stat.type === vscode.FileType.File;
+  } catch {
+    return false;
+  }
+}